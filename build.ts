@@ -58,7 +58,7 @@ esbuild
     watch: isDev,
     sourcemap: true, // Source map generation must be turned on
     plugins: [notificationPlugin],
-    external: ["@minecraft/server"],
+    external: ["@minecraft/server", "@minecraft/server-net"],
     legalComments: isDev ? "none" : "none",
     mainFields: ["main"], // Needed for @minecraft/math and @minecraft/vanilla-data
   })
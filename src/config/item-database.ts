@@ -24,4 +24,110 @@ export const ITEM_PREFIX = "!!:";
 /**
  * The size of the inventory of the database entity.
  */
-export const ENTITY_INVENTORY_SIZE = 200;
\ No newline at end of file
+export const ENTITY_INVENTORY_SIZE = 200;
+
+/**
+ * The dynamic property prefix used on database entities to store the
+ * record (identifier data and such) of each item they hold.
+ *
+ * @example "itemRecord:item123"
+ */
+export const ITEM_RECORD_PROPERTY_PREFIX = "itemRecord:";
+
+/**
+ * The world dynamic property prefix used to remember which entities
+ * belong to each database, so it knows when all of them have loaded.
+ *
+ * @example "itemDatabaseEntities:auctionItems"
+ */
+export const KNOWN_ENTITIES_PROPERTY_PREFIX = "itemDatabaseEntities:";
+
+/**
+ * The suffix added to the typeId of a database, to get the typeId of
+ * the collection its orphaned items are quarantined in when repaired.
+ *
+ * @example "auctionItems:quarantine"
+ */
+export const QUARANTINE_TYPEID_SUFFIX = ":quarantine";
+
+/**
+ * The suffix added to the typeId of a database, followed by the number of the copy,
+ * to get the typeId of the collection holding that copy of every item, when replicated.
+ *
+ * @example "auctionItems:replica1"
+ */
+export const REPLICA_TYPEID_SUFFIX = ":replica";
+
+/**
+ * The world dynamic property prefix used to remember which entities of
+ * each database were replaced after being removed, so they are discarded
+ * instead of loaded if they ever come back.
+ *
+ * @example "itemDatabaseSuperseded:auctionItems"
+ */
+export const SUPERSEDED_ENTITIES_PROPERTY_PREFIX = "itemDatabaseSuperseded:";
+
+/**
+ * The name of the ticking area that used to be added for `ENTITY_LOCATION`,
+ * it is kept as the name for that location so old worlds don't get a duplicate.
+ */
+export const LEGACY_TICKING_AREA_NAME = "itemDatabase";
+
+/**
+ * The item dynamic property the id of an item is stored in,
+ * when using the "dynamicProperty" identity encoding.
+ */
+export const ITEM_ID_PROPERTY = "itemDatabaseId";
+
+/**
+ * The entity dynamic property prefix the id of the item in each slot is stored in,
+ * when using the "slotMap" identity encoding.
+ *
+ * @example "itemSlot:12"
+ */
+export const SLOT_ID_PROPERTY_PREFIX = "itemSlot:";
+
+/**
+ * The version of the snapshot format written by `exportSnapshot`,
+ * bumped whenever the format changes in a way older readers can't handle.
+ * Version 2 encodes the data of each entry with `encodeItemData`.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * The world dynamic property prefix the outbound sync queue of each database is kept in.
+ * The queue's head and tail are stored under the typeId, and each change under its sequence number.
+ *
+ * @example "itemDatabaseSync:auctionItems"
+ * @example "itemDatabaseSync:auctionItems:12"
+ */
+export const SYNC_QUEUE_PROPERTY_PREFIX = "itemDatabaseSync:";
+
+/**
+ * The maximum length of a string Bedrock can store in a dynamic property.
+ * Queued sync changes longer than this are skipped.
+ */
+export const MAX_DYNAMIC_PROPERTY_LENGTH = 32767;
+
+/**
+ * The default amount of ticks between sweeps removing expired items.
+ */
+export const EXPIRY_SWEEP_INTERVAL_TICKS = 20;
+
+/**
+ * The default maximum amount of expired items removed per sweep,
+ * so a lot of items expiring at once is spread across ticks.
+ */
+export const EXPIRY_SWEEP_BATCH_SIZE = 25;
+
+/**
+ * The default amount of milliseconds an item stays reserved by `reserve`,
+ * before it can be taken by anyone else again.
+ */
+export const RESERVATION_TIMEOUT_MS = 30_000;
+
+/**
+ * The default amount of ticks a database waits, after the world has loaded, for its
+ * known entities to load. Entities that haven't loaded by then are reported as lost.
+ */
+export const READY_TIMEOUT_TICKS = 600;
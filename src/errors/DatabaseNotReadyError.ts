@@ -0,0 +1,19 @@
+/**
+ * Thrown when reading from an item database that has not finished
+ * loading all of its entities yet, as the read could be missing items.
+ */
+export class DatabaseNotReadyError extends Error {
+  /**
+   * The typeId of the database that is not ready.
+   */
+  readonly typeId: string;
+
+  /**
+   * @param typeId - The typeId of the database that is not ready.
+   */
+  constructor(typeId: string) {
+    super(`Item database "${typeId}" has not finished loading yet!`);
+    this.name = "DatabaseNotReadyError";
+    this.typeId = typeId;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Thrown when creating an item database with a typeId that is already
+ * in use, as both databases would claim the same entities.
+ */
+export class DuplicateDatabaseError extends Error {
+  /**
+   * The typeId that is already in use.
+   */
+  readonly typeId: string;
+
+  /**
+   * @param typeId - The typeId that is already in use.
+   */
+  constructor(typeId: string) {
+    super(`Item database "${typeId}" already exists!`);
+    this.name = "DuplicateDatabaseError";
+    this.typeId = typeId;
+  }
+}
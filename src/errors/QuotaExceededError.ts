@@ -0,0 +1,52 @@
+import { ItemDatabaseLimit, ItemDatabaseMetadataValue } from "../types";
+
+/**
+ * Thrown when storing an item would exceed a limit of the item database.
+ */
+export class QuotaExceededError extends Error {
+  /**
+   * The typeId of the database the item was stored in.
+   */
+  readonly typeId: string;
+
+  /**
+   * The limit that was reached.
+   */
+  readonly limit: ItemDatabaseLimit;
+
+  /**
+   * The value of the limit.
+   */
+  readonly max: number;
+
+  /**
+   * The owner that reached their limit, for `maxItemsPerOwner`.
+   */
+  readonly owner: ItemDatabaseMetadataValue | undefined;
+
+  /**
+   * @param typeId - The typeId of the database the item was stored in.
+   * @param limit - The limit that was reached.
+   * @param max - The value of the limit.
+   * @param owner - The owner that reached their limit, for `maxItemsPerOwner`.
+   */
+  constructor(
+    typeId: string,
+    limit: ItemDatabaseLimit,
+    max: number,
+    owner?: ItemDatabaseMetadataValue
+  ) {
+    super(
+      owner === undefined
+        ? `"${typeId}" reached its ${limit} limit of ${max}!`
+        : `Owner ${JSON.stringify(
+            owner
+          )} of "${typeId}" reached the ${limit} limit of ${max}!`
+    );
+    this.name = "QuotaExceededError";
+    this.typeId = typeId;
+    this.limit = limit;
+    this.max = max;
+    this.owner = owner;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Thrown when the identifier data of an item does not match the
+ * runtime schema of the item database it is stored in.
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * The typeId of the database the item was stored in.
+   */
+  readonly typeId: string;
+
+  /**
+   * The ID of the item.
+   */
+  readonly id: string;
+
+  /**
+   * The problems with the data of the item.
+   */
+  readonly issues: string[];
+
+  /**
+   * @param typeId - The typeId of the database the item was stored in.
+   * @param id - The ID of the item.
+   * @param issues - The problems with the data of the item.
+   */
+  constructor(typeId: string, id: string, issues: string[]) {
+    super(
+      `Item (${id}) of "${typeId}" does not match its schema: ${issues.join(
+        ", "
+      )}`
+    );
+    this.name = "SchemaValidationError";
+    this.typeId = typeId;
+    this.id = id;
+    this.issues = issues;
+  }
+}
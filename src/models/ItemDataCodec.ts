@@ -0,0 +1,139 @@
+import {
+  ItemDatabaseEncodedItemData,
+  ItemDatabaseItemStackData,
+  ItemDatabaseJsonValue,
+  ItemDatabaseMetadataValue,
+  ItemDatabaseSchemaFieldType,
+} from "../types";
+
+/**
+ * The key marking an encoded value that JSON can't hold as is.
+ *
+ * @example { "$type": "date", "value": 1700000000000 }
+ */
+const TYPE_KEY = "$type";
+
+/**
+ * Gets the type of a metadata value, as it is declared in a schema.
+ *
+ * @param value - The value to get the type of.
+ * @returns The type of the value.
+ */
+export function getMetadataValueType(
+  value: ItemDatabaseMetadataValue
+): ItemDatabaseSchemaFieldType {
+  if (value === null) return "null";
+  if (value instanceof Date) return "date";
+  if (Array.isArray(value)) return "array";
+
+  return typeof value as "string" | "number" | "boolean" | "object";
+}
+
+/**
+ * Encodes a metadata value to plain JSON, tagging the values JSON can't hold as is.
+ *
+ * @param value - The value to encode.
+ * @returns The encoded value.
+ */
+export function encodeValue(
+  value: ItemDatabaseMetadataValue
+): ItemDatabaseJsonValue {
+  if (value instanceof Date)
+    return { [TYPE_KEY]: "date", value: encodeValue(value.getTime()) };
+  if (Array.isArray(value)) return value.map(encodeValue);
+
+  // NaN, Infinity and -0 are not kept by JSON.
+  if (typeof value === "number") {
+    if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+    return {
+      [TYPE_KEY]: "number",
+      value: Object.is(value, -0) ? "-0" : `${value}`,
+    };
+  }
+
+  if (value === null || typeof value !== "object") return value;
+
+  const encoded: { [key: string]: ItemDatabaseJsonValue } = {};
+  for (const [key, entry] of Object.entries(value)) {
+    encoded[key] = encodeValue(entry);
+  }
+
+  // Objects that have the type key themselves are wrapped, so they aren't mistaken for a tag.
+  return TYPE_KEY in value ? { [TYPE_KEY]: "object", value: encoded } : encoded;
+}
+
+/**
+ * Decodes a metadata value encoded by `encodeValue`.
+ *
+ * @param encoded - The encoded value.
+ * @returns The decoded value.
+ */
+export function decodeValue(
+  encoded: ItemDatabaseJsonValue
+): ItemDatabaseMetadataValue {
+  if (Array.isArray(encoded)) return encoded.map(decodeValue);
+  if (encoded === null || typeof encoded !== "object") return encoded;
+
+  const tagValue = encoded["value"];
+  switch (encoded[TYPE_KEY]) {
+    case "date":
+      return new Date(decodeValue(tagValue ?? null) as number);
+    case "number":
+      return Number(tagValue);
+    case "object":
+      encoded = (tagValue ?? {}) as { [key: string]: ItemDatabaseJsonValue };
+  }
+
+  const decoded: { [key: string]: ItemDatabaseMetadataValue } = {};
+  for (const [key, entry] of Object.entries(encoded)) {
+    decoded[key] = decodeValue(entry);
+  }
+  return decoded;
+}
+
+/**
+ * Encodes the identifier data of an item to plain JSON.
+ *
+ * @param data - The data to encode.
+ * @returns The encoded data.
+ */
+export function encodeItemData(
+  data: ItemDatabaseItemStackData
+): ItemDatabaseEncodedItemData {
+  const encoded: ItemDatabaseEncodedItemData = { id: data.id };
+  for (const [key, value] of Object.entries(data)) {
+    encoded[key] = encodeValue(value);
+  }
+
+  return encoded;
+}
+
+/**
+ * Decodes the identifier data of an item encoded by `encodeItemData`.
+ * Data written before values were encoded only holds strings, so it decodes as is.
+ *
+ * @param encoded - The encoded data.
+ * @returns The decoded data.
+ */
+export function decodeItemData<
+  IdentifierData extends ItemDatabaseItemStackData
+>(encoded: ItemDatabaseEncodedItemData): IdentifierData {
+  const data: ItemDatabaseItemStackData = { id: encoded.id };
+  for (const [key, value] of Object.entries(encoded)) {
+    data[key] = decodeValue(value);
+  }
+
+  return data as IdentifierData;
+}
+
+/**
+ * Deep copies the identifier data of an item, so changes to the copy don't leak into the cache.
+ *
+ * @param data - The data to copy.
+ * @returns The copied data.
+ */
+export function cloneItemData<IdentifierData extends ItemDatabaseItemStackData>(
+  data: IdentifierData
+): IdentifierData {
+  return decodeItemData(encodeItemData(data));
+}
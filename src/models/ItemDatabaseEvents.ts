@@ -0,0 +1,94 @@
+/**
+ * A callback subscribed to an event.
+ * @template Payload - The payload the event is emitted with.
+ */
+export type ItemDatabaseEventCallback<Payload> = (payload: Payload) => void;
+
+/**
+ * Typed event hooks, mapping each event name to the callbacks subscribed to it.
+ * @template EventMap - Map of event names to the payload they are emitted with.
+ */
+export class ItemDatabaseEvents<EventMap extends Record<string, unknown>> {
+  /**
+   * Callbacks subscribed to each event, typed by `getCallbacks` per event.
+   * @key - The name of the event.
+   * @value - The callbacks subscribed to the event.
+   */
+  private callbacks: Map<
+    keyof EventMap,
+    Set<ItemDatabaseEventCallback<EventMap[keyof EventMap]>>
+  >;
+
+  constructor() {
+    this.callbacks = new Map();
+  }
+
+  /**
+   * Gets the callbacks subscribed to an event, creating the set if asked to.
+   *
+   * @param event - The name of the event.
+   * @param create - If the set should be created when nothing is subscribed yet.
+   * @returns The callbacks subscribed to the event, or undefined if there are none.
+   */
+  private getCallbacks<Event extends keyof EventMap>(
+    event: Event,
+    create = false
+  ): Set<ItemDatabaseEventCallback<EventMap[Event]>> | undefined {
+    let callbacks = this.callbacks.get(event);
+    if (!callbacks && create) {
+      callbacks = new Set();
+      this.callbacks.set(event, callbacks);
+    }
+
+    // Only callbacks of this event are ever stored under its name.
+    return callbacks as Set<ItemDatabaseEventCallback<EventMap[Event]>>;
+  }
+
+  /**
+   * Subscribes a callback to an event.
+   *
+   * @param event - The name of the event.
+   * @param callback - The callback to call when the event is emitted.
+   * @returns The callback, so it can be unsubscribed later.
+   */
+  subscribe<Event extends keyof EventMap>(
+    event: Event,
+    callback: ItemDatabaseEventCallback<EventMap[Event]>
+  ): ItemDatabaseEventCallback<EventMap[Event]> {
+    this.getCallbacks(event, true)?.add(callback);
+
+    return callback;
+  }
+
+  /**
+   * Unsubscribes a callback from an event.
+   *
+   * @param event - The name of the event.
+   * @param callback - The callback that was subscribed.
+   */
+  unsubscribe<Event extends keyof EventMap>(
+    event: Event,
+    callback: ItemDatabaseEventCallback<EventMap[Event]>
+  ) {
+    this.getCallbacks(event)?.delete(callback);
+  }
+
+  /**
+   * Emits an event to every callback subscribed to it.
+   * A callback throwing does not stop the others from being called.
+   *
+   * @param event - The name of the event.
+   * @param payload - The payload to call the callbacks with.
+   */
+  emit<Event extends keyof EventMap>(event: Event, payload: EventMap[Event]) {
+    for (const callback of this.getCallbacks(event) ?? []) {
+      try {
+        callback(payload);
+      } catch (error) {
+        console.error(
+          `[ITEM_DATABASE] Callback of "${String(event)}" threw: ${error}`
+        );
+      }
+    }
+  }
+}
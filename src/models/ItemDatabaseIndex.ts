@@ -0,0 +1,229 @@
+import {
+  ItemDatabaseItemStackData,
+  ItemDatabaseMetadataValue,
+  ItemDatabaseQueryFilter,
+} from "../types";
+import { binarySearch, compareValues, getValueRank } from "../utils";
+import { encodeValue } from "./ItemDataCodec";
+
+/**
+ * A value that can be stored in a secondary index.
+ */
+type IndexValue = ItemDatabaseMetadataValue;
+
+/**
+ * The key a value is stored under in a secondary index. Dates, arrays and objects
+ * are keyed by their encoded JSON, so equal values share a key.
+ */
+type IndexKey = string | number | boolean | null;
+
+/**
+ * Gets the key a value is stored under in a secondary index.
+ *
+ * @param value - The value to get the key of.
+ * @returns The key of the value.
+ */
+function getIndexKey(value: IndexValue): IndexKey {
+  if (value === null || typeof value !== "object") return value;
+
+  // Prefixed, so it can't collide with a string value.
+  return `\u0000${JSON.stringify(encodeValue(value))}`;
+}
+
+/**
+ * Checks if a value matches every condition of a query filter.
+ *
+ * @param value - The value to check.
+ * @param filter - The filter to check the value against.
+ * @returns true if the value matches the filter, false otherwise.
+ */
+export function matchesQueryFilter(
+  value: unknown,
+  filter: ItemDatabaseQueryFilter<unknown>
+): boolean {
+  if (filter.eq !== undefined && compareValues(value, filter.eq) !== 0)
+    return false;
+  if (
+    filter.in !== undefined &&
+    !filter.in.some((option) => compareValues(value, option) === 0)
+  )
+    return false;
+  if (filter.prefix !== undefined) {
+    if (typeof value !== "string" || !value.startsWith(filter.prefix))
+      return false;
+  }
+
+  // Range checks only match values of the same type as their bound,
+  // so `{ lt: 100 }` doesn't match missing values, null, booleans or strings.
+  const rangeBounds = [filter.gt, filter.gte, filter.lt, filter.lte];
+  for (const bound of rangeBounds) {
+    if (bound === undefined) continue;
+    if (value === undefined || getValueRank(value) !== getValueRank(bound))
+      return false;
+  }
+  if (filter.gt !== undefined && compareValues(value, filter.gt) <= 0)
+    return false;
+  if (filter.gte !== undefined && compareValues(value, filter.gte) < 0)
+    return false;
+  if (filter.lt !== undefined && compareValues(value, filter.lt) >= 0)
+    return false;
+  if (filter.lte !== undefined && compareValues(value, filter.lte) > 0)
+    return false;
+
+  return true;
+}
+
+/**
+ * A secondary index over a single field of the identifier data,
+ * mapping each value of the field to the ids of the items that have it.
+ */
+export class ItemDatabaseIndex {
+  /**
+   * The field of the identifier data this index is over.
+   */
+  readonly field: string;
+
+  /**
+   * Map of field values to the item ids that have them.
+   * @key - The value of the field.
+   * @value - The ids of the items that have this value.
+   */
+  private valueIds: Map<IndexKey, Set<string>>;
+
+  /**
+   * Every distinct value in this index, kept sorted for prefix and range lookups.
+   */
+  private sortedValues: IndexValue[];
+
+  /**
+   * Creates a new, empty, secondary index.
+   * @param field - The field of the identifier data to index.
+   */
+  constructor(field: string) {
+    this.field = field;
+    this.valueIds = new Map();
+    this.sortedValues = [];
+  }
+
+  /**
+   * Adds an item to this index.
+   *
+   * @param id - The ID of the item.
+   * @param data - The data of the item.
+   */
+  add(id: string, data: ItemDatabaseItemStackData) {
+    const value = data[this.field];
+    if (value === undefined) return;
+
+    const key = getIndexKey(value);
+    let ids = this.valueIds.get(key);
+    if (!ids) {
+      ids = new Set();
+      this.valueIds.set(key, ids);
+      this.sortedValues.splice(
+        binarySearch(this.sortedValues, value),
+        0,
+        value
+      );
+    }
+    ids.add(id);
+  }
+
+  /**
+   * Removes an item from this index.
+   *
+   * @param id - The ID of the item.
+   * @param data - The data the item was indexed with.
+   */
+  remove(id: string, data: ItemDatabaseItemStackData) {
+    const value = data[this.field];
+    if (value === undefined) return;
+
+    const key = getIndexKey(value);
+    const ids = this.valueIds.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size > 0) return;
+
+    // No items have this value anymore, drop it.
+    this.valueIds.delete(key);
+    const index = binarySearch(this.sortedValues, value);
+    const sortedValue = this.sortedValues[index];
+    if (sortedValue !== undefined && getIndexKey(sortedValue) === key)
+      this.sortedValues.splice(index, 1);
+  }
+
+  /**
+   * Removes every item from this index.
+   */
+  clear() {
+    this.valueIds.clear();
+    this.sortedValues = [];
+  }
+
+  /**
+   * Finds the ids of all items matching a filter on this index's field.
+   *
+   * @param filter - The filter to match.
+   * @returns The ids of the matching items.
+   */
+  find(filter: ItemDatabaseQueryFilter<unknown>): Set<string> {
+    const matchingIds = new Set<string>();
+    const addValue = (value: IndexValue) => {
+      for (const id of this.valueIds.get(getIndexKey(value)) ?? [])
+        matchingIds.add(id);
+    };
+
+    // Equality lookups don't need to walk the sorted values.
+    const exactValues = filter.eq !== undefined ? [filter.eq] : filter.in;
+    if (exactValues) {
+      for (const value of exactValues) {
+        if (!matchesQueryFilter(value, filter)) continue;
+        addValue(value as IndexValue);
+      }
+      return matchingIds;
+    }
+
+    // Walk the sorted values from the lower bound of the filter, or from the
+    // first value of the range's type when there is only an upper bound.
+    const rangeBound = filter.gte ?? filter.gt ?? filter.lte ?? filter.lt;
+    const lowerBound = filter.gte ?? filter.gt ?? filter.prefix;
+    let index = 0;
+    if (lowerBound !== undefined)
+      index = binarySearch<unknown>(this.sortedValues, lowerBound);
+    else if (rangeBound !== undefined)
+      index = binarySearch<unknown>(
+        this.sortedValues,
+        rangeBound,
+        (a, b) => getValueRank(a) - getValueRank(b)
+      );
+    for (; index < this.sortedValues.length; index++) {
+      const value = this.sortedValues[index] as IndexValue;
+      if (matchesQueryFilter(value, filter)) {
+        addValue(value);
+        continue;
+      }
+
+      // Values are sorted by type first, so past the range's type nothing else matches.
+      if (
+        rangeBound !== undefined &&
+        getValueRank(value) > getValueRank(rangeBound)
+      )
+        break;
+
+      // Values are sorted, so once the upper bound is passed nothing else matches.
+      if (filter.lt !== undefined && compareValues(value, filter.lt) >= 0)
+        break;
+      if (filter.lte !== undefined && compareValues(value, filter.lte) > 0)
+        break;
+      if (
+        filter.prefix !== undefined &&
+        compareValues(value, filter.prefix) > 0 &&
+        !(typeof value === "string" && value.startsWith(filter.prefix))
+      )
+        break;
+    }
+
+    return matchingIds;
+  }
+}
@@ -0,0 +1,172 @@
+import { Entity, world } from "@minecraft/server";
+import { DuplicateDatabaseError } from "../errors/DuplicateDatabaseError";
+import { ItemDatabaseItemStackData } from "../types";
+import type { ItemDatabase } from "./ItemDatabaseModel";
+
+/**
+ * A database of any identifier data, as stored in the registry. Only the members
+ * that don't depend on the identifier data are kept, so any database fits as is,
+ * and `get` narrows it back to the type its caller expects.
+ */
+type AnyItemDatabase = Pick<
+  ItemDatabase<ItemDatabaseItemStackData>,
+  | "typeId"
+  | "getConfig"
+  | "handleWorldLoad"
+  | "handleEntityLoad"
+  | "handleEntityRemove"
+>;
+
+/**
+ * Registry of every item database, owning the world event subscriptions
+ * and routing each database entity to the database it belongs to.
+ */
+export class ItemDatabaseManager {
+  /**
+   * Every registered database.
+   * @key - The typeId of the database.
+   * @value - The database itself.
+   */
+  private static databases: Map<string, AnyItemDatabase> = new Map();
+
+  /**
+   * If the world events have been subscribed to.
+   */
+  private static isSubscribed = false;
+
+  /**
+   * If the world has loaded, so databases registered from now on are loaded immediately.
+   */
+  private static isWorldLoaded = false;
+
+  /**
+   * Registers a database, loading it immediately if the world already loaded.
+   * @template IdentifierData - The type of data the database was created with.
+   *
+   * @param database - The database to register.
+   * @throws DuplicateDatabaseError if a database with the same typeId is already registered.
+   */
+  static register<IdentifierData extends ItemDatabaseItemStackData>(
+    database: ItemDatabase<IdentifierData>
+  ) {
+    if (this.databases.has(database.typeId))
+      throw new DuplicateDatabaseError(database.typeId);
+
+    this.databases.set(database.typeId, database);
+    this.subscribe();
+
+    // Registered too late for the world load event.
+    if (this.isWorldLoaded) this.loadDatabases([database]);
+  }
+
+  /**
+   * Gets a registered database by its typeId.
+   * @template IdentifierData - The type of data the database was created with.
+   *
+   * @param typeId - The typeId of the database.
+   * @returns The database, or undefined if there is none with this typeId.
+   * @example ItemDatabaseManager.get<AuctionItemData>("auctionItems");
+   */
+  static get<
+    IdentifierData extends ItemDatabaseItemStackData = ItemDatabaseItemStackData
+  >(typeId: string): ItemDatabase<IdentifierData> | undefined {
+    // Only databases are ever registered, narrowed to the data the caller expects.
+    return this.databases.get(typeId) as
+      | ItemDatabase<IdentifierData>
+      | undefined;
+  }
+
+  /**
+   * Lists every registered database.
+   *
+   * @returns The registered databases, in registration order.
+   */
+  static list(): ItemDatabase<ItemDatabaseItemStackData>[] {
+    return [...this.databases.keys()].flatMap(
+      (typeId) => this.get(typeId) ?? []
+    );
+  }
+
+  /**
+   * Gets the database an entity belongs to.
+   *
+   * @param entity - The entity to get the database of.
+   * @returns The database, or undefined if the entity is not a database entity.
+   */
+  private static getEntityDatabase(
+    entity: Entity
+  ): AnyItemDatabase | undefined {
+    if (!entity.isValid) return undefined;
+
+    const typeId = entity.getDynamicProperty("databaseTypeId");
+    if (typeof typeId !== "string") return undefined;
+    return this.databases.get(typeId);
+  }
+
+  /**
+   * Loads databases with the entities that are already loaded, scanning each
+   * dimension and entity type once no matter how many databases use it.
+   *
+   * @param databases - The databases to load.
+   */
+  private static loadDatabases(databases: AnyItemDatabase[]) {
+    const scannedKeys = new Set<string>();
+    const databaseEntities = new Map<string, Entity[]>();
+
+    for (const database of databases) {
+      const { dimension, entityTypeId } = database.getConfig();
+      const scanKey = `${dimension}:${entityTypeId}`;
+      if (scannedKeys.has(scanKey)) continue;
+      scannedKeys.add(scanKey);
+
+      try {
+        const alreadyLoadedEntities = world
+          .getDimension(dimension)
+          .getEntities({ type: entityTypeId });
+
+        for (const entity of alreadyLoadedEntities) {
+          const entityDatabase = this.getEntityDatabase(entity);
+          if (!entityDatabase) continue;
+
+          const entities = databaseEntities.get(entityDatabase.typeId) ?? [];
+          entities.push(entity);
+          databaseEntities.set(entityDatabase.typeId, entities);
+        }
+      } catch (error) {
+        console.warn(
+          `[ITEM_DATABASE] Failed to fetch pre-loaded entities: ${error}`
+        );
+      }
+    }
+
+    for (const database of databases) {
+      database.handleWorldLoad(databaseEntities.get(database.typeId) ?? []);
+    }
+  }
+
+  /**
+   * Subscribes to the world events, once, for every database.
+   */
+  private static subscribe() {
+    if (this.isSubscribed) return;
+    this.isSubscribed = true;
+
+    // Fetch any entities that were loaded before the databases were initialized.
+    world.afterEvents.worldLoad.subscribe(() => {
+      this.isWorldLoaded = true;
+      this.loadDatabases([...this.databases.values()]);
+    });
+
+    // Fetch items when entities are loaded.
+    world.afterEvents.entityLoad.subscribe(({ entity }) => {
+      this.getEntityDatabase(entity)?.handleEntityLoad(entity);
+    });
+
+    world.afterEvents.entityRemove.subscribe(({ removedEntityId, typeId }) => {
+      for (const database of this.databases.values()) {
+        if (database.getConfig().entityTypeId !== typeId) continue;
+        database.handleEntityRemove(removedEntityId);
+      }
+    });
+  }
+}
@@ -1,13 +1,146 @@
-import { Entity, ItemStack, system, world } from "@minecraft/server";
-import { ItemDatabaseItemStackData } from "../types";
+import {
+  CommandPermissionLevel,
+  Container,
+  Entity,
+  ItemStack,
+  system,
+  Vector3,
+  world,
+} from "@minecraft/server";
+import {
+  ItemDatabaseBatchEntry,
+  ItemDatabaseBatchProgressCallback,
+  ItemDatabaseBatchResult,
+  ItemDatabaseCapacity,
+  ItemDatabaseCompactionResult,
+  ItemDatabaseConfig,
+  ItemDatabaseEntry,
+  ItemDatabaseEventMap,
+  ItemDatabaseIdentityEncoder,
+  ItemDatabaseImportOptions,
+  ItemDatabaseInvalidRecord,
+  ItemDatabaseIntegrityReport,
+  ItemDatabaseItemLocation,
+  ItemDatabaseItemRecord,
+  ItemDatabaseStoredItemRecord,
+  ItemDatabaseItemStackData,
+  ItemDatabaseLimits,
+  ItemDatabaseListOptions,
+  ItemDatabaseMetadataValue,
+  ItemDatabaseOptions,
+  ItemDatabasePage,
+  ItemDatabaseQuery,
+  ItemDatabaseQueryFilter,
+  ItemDatabaseRecoveryMode,
+  ItemDatabaseRecoveryReport,
+  ItemDatabaseRepairOptions,
+  ItemDatabaseRepairResult,
+  ItemDatabaseReplicaSyncResult,
+  ItemDatabaseSchema,
+  ItemDatabaseItemProjection,
+  ItemDatabaseItemSearch,
+  ItemDatabaseReservation,
+  ItemDatabaseSetOptions,
+  ItemDatabaseSnapshot,
+  ItemDatabaseSnapshotEntry,
+  ItemDatabaseTransactionOperation,
+} from "../types";
 import {
   ENTITY_DIMENSION,
   ENTITY_INVENTORY_SIZE,
   ENTITY_LOCATION,
   ENTITY_TYPEID,
+  EXPIRY_SWEEP_BATCH_SIZE,
+  EXPIRY_SWEEP_INTERVAL_TICKS,
   ITEM_PREFIX,
+  ITEM_RECORD_PROPERTY_PREFIX,
+  KNOWN_ENTITIES_PROPERTY_PREFIX,
+  QUARANTINE_TYPEID_SUFFIX,
+  REPLICA_TYPEID_SUFFIX,
+  READY_TIMEOUT_TICKS,
+  RESERVATION_TIMEOUT_MS,
+  SNAPSHOT_VERSION,
+  SUPERSEDED_ENTITIES_PROPERTY_PREFIX,
 } from "../config/item-database";
-import { assert } from "../utils";
+import { DatabaseNotReadyError } from "../errors/DatabaseNotReadyError";
+import { DuplicateDatabaseError } from "../errors/DuplicateDatabaseError";
+import { QuotaExceededError } from "../errors/QuotaExceededError";
+import { SchemaValidationError } from "../errors/SchemaValidationError";
+import {
+  assert,
+  binarySearch,
+  compareValues,
+  generateUniqueId,
+  getEntityBoundingBox,
+  runJobAsync,
+} from "../utils";
+import { ItemDatabaseEvents } from "./ItemDatabaseEvents";
+import { ItemDatabaseIndex, matchesQueryFilter } from "./ItemDatabaseIndex";
+import { ItemDatabaseManager } from "./ItemDatabaseManager";
+import { migrateItemData, validateItemData } from "./ItemDatabaseSchema";
+import {
+  createIdentityEncoder,
+  NameTagIdentityEncoder,
+} from "./ItemIdentityEncoders";
+import {
+  cloneItemData,
+  decodeItemData,
+  encodeItemData,
+  encodeValue,
+} from "./ItemDataCodec";
+import {
+  deserializeItemStack,
+  serializeItemStack,
+} from "./ItemStackSerializer";
+import { ItemDatabaseTransaction } from "./ItemDatabaseTransaction";
+import { matchesItemSearch, projectItemStack } from "./ItemStackSearch";
+import { TickingAreaManager } from "./TickingAreaManager";
+
+/**
+ * When an item of the database expires.
+ */
+type ItemExpiration = {
+  /** The ID of the item. */
+  id: string;
+  /** When the item expires, in milliseconds since the epoch. */
+  expiresAt: number;
+};
+
+/**
+ * A reservation of an item of the database.
+ */
+type ItemReservation = {
+  /** The token to commit or release the reservation with. */
+  token: string;
+  /** When the reservation times out, in milliseconds since the epoch. */
+  expiresAt: number;
+};
+
+/**
+ * An item as it is stored in the database, kept to put it back if a transaction rolls back.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+type StoredEntry<IdentifierData extends ItemDatabaseItemStackData> = {
+  /** The itemStack as it is stored. */
+  itemStack: ItemStack;
+  /** The data of the item. */
+  data: IdentifierData;
+  /** When the item expires, undefined if it never expires. */
+  expiresAt: number | undefined;
+  /** The reservation of the item, undefined if it is not reserved. */
+  reservation: ItemReservation | undefined;
+};
+
+/**
+ * Orders expirations by when they expire, then by item id.
+ *
+ * @param a - The first expiration.
+ * @param b - The second expiration.
+ * @returns A negative number if a expires first, a positive number if b does, 0 if they are the same.
+ */
+function compareExpirations(a: ItemExpiration, b: ItemExpiration): number {
+  return a.expiresAt - b.expiresAt || compareValues(a.id, b.id);
+}
 
 /**
  * Represents a database for storing items in Minecraft Bedrock Edition.
@@ -22,395 +155,3382 @@ export class ItemDatabase<IdentifierData extends ItemDatabaseItemStackData> {
   private databaseEntities: Map<string, Entity>;
 
   /**
-   * Cached items that have been fetched from the database.
+   * Cached items that have been fetched from the database, without their encoded id.
    * @key - The ID of the item.
    * @value - The item itself.
    */
   private cachedItems: Map<string, ItemStack>;
 
+  /**
+   * Cached identifier data of every item in the database.
+   * @key - The ID of the item.
+   * @value - The full data the item was stored with.
+   */
+  private cachedData: Map<string, IdentifierData>;
+
+  /**
+   * Every item id in the database, kept sorted for cursor based pagination.
+   */
+  private sortedItemIds: string[];
+
   /**
    * Map of entity ids to the item ids that are stored in them.
    * @key - The ID of the entity.
    * @value - The item ids that are stored in the entity.
    */
-  private itemStorageMap: Map<string, string[]>;
+  private itemStorageMap: Map<string, string[]>;
+
+  /**
+   * Map of item ids to where they are stored, to avoid scanning entities.
+   * @key - The ID of the item.
+   * @value - The entity and slot the item is stored in.
+   */
+  private itemLocations: Map<string, ItemDatabaseItemLocation>;
+
+  /**
+   * Secondary indexes over fields of the identifier data.
+   * @key - The field that is indexed.
+   * @value - The index over that field.
+   */
+  private indexes: Map<string, ItemDatabaseIndex>;
+
+  /**
+   * The tail of the queue of pending writes. Every write waits for the
+   * previous one to finish, so concurrent writes to the same id resolve in
+   * call order, and at most one entity is ever being spawned at a time.
+   */
+  private writeQueue: Promise<unknown>;
+
+  /**
+   * The ids of every entity this database has spawned, persisted across restarts.
+   * Undefined until the world has loaded, and they could be read.
+   */
+  private knownEntityIds: Set<string> | undefined;
+
+  /**
+   * Resolves the promise returned by `whenReady`.
+   */
+  private resolveReady: () => void;
+
+  /**
+   * Resolves once every known entity of this database has loaded.
+   */
+  private readyPromise: Promise<void>;
+
+  /**
+   * If reads throw while this database is not ready.
+   */
+  private strictReads: boolean;
+
+  /**
+   * How many ticks to wait for every known entity to load, before giving up on the missing ones.
+   */
+  private readyTimeoutTicks: number;
+
+  /**
+   * What to do when a database entity is unexpectedly removed.
+   */
+  private recovery: ItemDatabaseRecoveryMode;
+
+  /**
+   * Removed entities whose items are still cached, waiting for an admin to recover them.
+   * @key - The ID of the removed entity.
+   * @value - The ids of the items it held.
+   */
+  private pendingRecoveries: Map<string, string[]>;
+
+  /**
+   * Ids of removed entities that were replaced, so they are discarded if they come back.
+   * Undefined until the world has loaded, and they could be read.
+   */
+  private supersededEntityIds: Set<string> | undefined;
+
+  /**
+   * How the id of each item is stored.
+   */
+  private identity: ItemDatabaseIdentityEncoder;
+
+  /**
+   * The "nameTag" encoding items may still be stored with, while migrating off of it.
+   * Undefined if this database uses the "nameTag" encoding itself.
+   */
+  private legacyIdentity: NameTagIdentityEncoder | undefined;
+
+  /**
+   * The runtime schema the identifier data is validated against, if any.
+   */
+  private schema: ItemDatabaseSchema<IdentifierData> | undefined;
+
+  /**
+   * Stored records that failed validation when they loaded, so their item was not loaded.
+   * @key - The ID of the item.
+   * @value - The invalid record.
+   */
+  private invalidRecords: Map<string, ItemDatabaseInvalidRecord>;
+
+  /**
+   * Caps on how much this database may hold.
+   */
+  private limits: ItemDatabaseLimits<IdentifierData>;
+
+  /**
+   * Map of owners to the amount of items they have stored, kept when `ownerField` is set.
+   * @key - The owner, as keyed by `getOwnerKey`.
+   * @value - The amount of items of the owner.
+   */
+  private ownerItemCounts: Map<string, number>;
+
+  /**
+   * Map of item ids to when they expire, for items that expire.
+   * @key - The ID of the item.
+   * @value - When the item expires, in milliseconds since the epoch.
+   */
+  private expirations: Map<string, number>;
+
+  /**
+   * The expirations of every expiring item, sorted by when they expire.
+   */
+  private expirationQueue: ItemExpiration[];
+
+  /**
+   * The maximum amount of expired items removed per sweep.
+   */
+  private expirySweepBatchSize: number;
+
+  /**
+   * The amount of ticks between sweeps of expired items.
+   */
+  private expirySweepIntervalTicks: number;
+
+  /**
+   * The id of the interval sweeping expired items, undefined while nothing expires,
+   * and always for replicas, whose expired copies are removed by the database they replicate.
+   */
+  private expirySweepRunId: number | undefined;
+
+  /**
+   * If a sweep of expired items is queued, or running.
+   */
+  private isSweeping: boolean;
+
+  /**
+   * The fill ratio of the database entities below which this database compacts itself.
+   */
+  private autoCompactThreshold: number | undefined;
+
+  /**
+   * If an automatic compaction is queued, or running.
+   */
+  private isAutoCompacting: boolean;
+
+  /**
+   * Map of reserved items, to their reservation.
+   * @key - The ID of the reserved item.
+   * @value - The token of the reservation, and when it times out.
+   */
+  private reservations: Map<string, ItemReservation>;
+
+  /**
+   * Map of item ids, to the properties `searchItems` filters by,
+   * undefined unless the `searchProjections` option is enabled.
+   * @key - The ID of the item.
+   * @value - The searchable properties of the item.
+   */
+  private projections: Map<string, ItemDatabaseItemProjection> | undefined;
+
+  /**
+   * If every known entity of this database has loaded, and its items are registered.
+   */
+  isReady: boolean;
+
+  /**
+   * Typed event hooks, emitted as items and entities of this database change.
+   *
+   * @example db.events.subscribe("itemSet", ({ id, data }) => {});
+   */
+  readonly events: ItemDatabaseEvents<ItemDatabaseEventMap<IdentifierData>>;
+
+  /**
+   * The collection orphaned items are moved into when this database is repaired,
+   * undefined until it is first needed.
+   */
+  private quarantine: ItemDatabase<ItemDatabaseItemStackData> | undefined;
+
+  /**
+   * The collections holding the extra copies of every item, empty unless this database is replicated.
+   */
+  readonly replicas: ItemDatabase<IdentifierData>[];
+
+  /**
+   * If this database is a replica collection, holding the extra copies of another database.
+   */
+  private isReplica: boolean;
+
+  /**
+   * The typeId that this database is linked to, and is how it keeps track of entities spawned in.
+   *
+   * @example "auctionItems"
+   * @example "backpackItems"
+   */
+  public typeId: string;
+
+  /**
+   * Where and how this database stores its items.
+   */
+  private config: ItemDatabaseConfig;
+
+  /**
+   * Returns a string representing a bounding box that the entities must be in,
+   * this is used for ticking areas and such that require running commands.
+   *
+   * @param location - The location the entities reside at, defaults to `ENTITY_LOCATION`.
+   * @returns @example "-1 -1 -1 1 1 1"
+   */
+  static getEntityBoundingBox(location: Vector3 = ENTITY_LOCATION): string {
+    return getEntityBoundingBox(location);
+  }
+
+  /**
+   * Returns a string representing a bounding box that the entities of this database must be in.
+   *
+   * @returns @example "-1 -1 -1 1 1 1"
+   */
+  getEntityBoundingBox(): string {
+    return ItemDatabase.getEntityBoundingBox(this.config.location);
+  }
+
+  /**
+   * Establishes an ItemDatabase instance into the world.
+   * @param typeId - Identifier for ItemDatabase Mapping.
+   * @param options - Options to configure this database with.
+   * @param isReplica - If this database holds the extra copies of another database, only set by `createReplicas`.
+   */
+  constructor(
+    typeId: string,
+    options: ItemDatabaseOptions<IdentifierData> = {},
+    isReplica = false
+  ) {
+    // Checked first, so a duplicate doesn't set anything up.
+    if (ItemDatabaseManager.get(typeId))
+      throw new DuplicateDatabaseError(typeId);
+
+    this.typeId = typeId;
+    this.config = {
+      entityTypeId: options.entityTypeId ?? ENTITY_TYPEID,
+      location: options.location ?? ENTITY_LOCATION,
+      dimension: options.dimension ?? ENTITY_DIMENSION,
+      itemPrefix: options.itemPrefix ?? ITEM_PREFIX,
+      inventorySize: options.inventorySize ?? ENTITY_INVENTORY_SIZE,
+    };
+    this.databaseEntities = new Map();
+    this.cachedItems = new Map();
+    this.cachedData = new Map();
+    this.sortedItemIds = [];
+    this.itemStorageMap = new Map();
+    this.itemLocations = new Map();
+    this.writeQueue = Promise.resolve();
+    this.strictReads = options.strictReads ?? false;
+    this.readyTimeoutTicks = options.readyTimeoutTicks ?? READY_TIMEOUT_TICKS;
+    // Replicated databases rebuild lost copies from their replicas instead.
+    this.recovery = options.replication ? "off" : options.recovery ?? "auto";
+    this.pendingRecoveries = new Map();
+    const identity = options.identity ?? "nameTag";
+    this.identity =
+      typeof identity === "string"
+        ? createIdentityEncoder(identity, this.config.itemPrefix)
+        : identity;
+    this.legacyIdentity =
+      this.identity instanceof NameTagIdentityEncoder
+        ? undefined
+        : new NameTagIdentityEncoder(this.config.itemPrefix);
+    this.schema = options.schema;
+    this.invalidRecords = new Map();
+    this.limits = options.limits ?? {};
+    this.ownerItemCounts = new Map();
+    this.expirations = new Map();
+    this.expirationQueue = [];
+    this.expirySweepBatchSize =
+      options.expirySweep?.batchSize ?? EXPIRY_SWEEP_BATCH_SIZE;
+    this.expirySweepIntervalTicks =
+      options.expirySweep?.intervalTicks ?? EXPIRY_SWEEP_INTERVAL_TICKS;
+    this.expirySweepRunId = undefined;
+    this.isSweeping = false;
+    this.autoCompactThreshold = options.autoCompactThreshold;
+    this.isAutoCompacting = false;
+    this.reservations = new Map();
+    this.projections = options.searchProjections ? new Map() : undefined;
+    this.isReady = false;
+    this.events = new ItemDatabaseEvents();
+    this.quarantine = undefined;
+    this.resolveReady = () => {};
+    this.readyPromise = new Promise((resolve) => (this.resolveReady = resolve));
+    this.indexes = new Map(
+      (options.indexes ?? []).map((field) => [
+        field,
+        new ItemDatabaseIndex(field),
+      ])
+    );
+
+    this.isReplica = isReplica;
+    this.replicas = this.createReplicas(options);
+
+    ItemDatabaseManager.register(this);
+    if (this.replicas.length > 0) this.watchReplicas();
+  }
+
+  /**
+   * Creates the replica collections holding the extra copies of every item.
+   *
+   * @param options - The options this database was created with.
+   * @returns The replicas, empty unless this database is replicated.
+   */
+  private createReplicas(
+    options: ItemDatabaseOptions<IdentifierData>
+  ): ItemDatabase<IdentifierData>[] {
+    const replicas: ItemDatabase<IdentifierData>[] = [];
+    const factor = options.replication?.factor ?? 1;
+    for (let copy = 1; copy < factor; copy++) {
+      const replicaOptions: ItemDatabaseOptions<IdentifierData> = {
+        ...this.config,
+        location:
+          options.replication?.locations?.[copy - 1] ?? this.config.location,
+        recovery: "off",
+        identity: this.identity,
+      };
+      if (options.schema) replicaOptions.schema = options.schema;
+      if (options.expirySweep) replicaOptions.expirySweep = options.expirySweep;
+      if (options.readyTimeoutTicks !== undefined)
+        replicaOptions.readyTimeoutTicks = options.readyTimeoutTicks;
+      if (options.autoCompactThreshold !== undefined)
+        replicaOptions.autoCompactThreshold = options.autoCompactThreshold;
+
+      replicas.push(
+        new ItemDatabase(
+          `${this.typeId}${REPLICA_TYPEID_SUFFIX}${copy}`,
+          replicaOptions,
+          true
+        )
+      );
+    }
+
+    return replicas;
+  }
+
+  /**
+   * Keeps the copies of every item in sync, once this database and every replica
+   * has loaded, and whenever an entity of any of them is lost.
+   */
+  private watchReplicas() {
+    const members = [this, ...this.replicas];
+    Promise.all(members.map((member) => member.whenReady())).then(() =>
+      this.syncReplicas()
+    );
+
+    for (const member of members) {
+      member.events.subscribe("entityLost", ({ lostItemIds }) => {
+        if (lostItemIds.length > 0) this.syncReplicas(lostItemIds);
+      });
+    }
+  }
+
+  /**
+   * Re-creates the missing copies of items across this database and its replicas,
+   * and rewrites the copies that are out of sync. The copy in this database wins
+   * over the replicas, and an item is kept as long as any copy of it is left.
+   *
+   * @param ids - The IDs of the items to sync, defaults to every item.
+   * @returns The items that had copies re-created, or failed to.
+   */
+  async syncReplicas(
+    ids?: IdentifierData["id"][]
+  ): Promise<ItemDatabaseReplicaSyncResult> {
+    const result: ItemDatabaseReplicaSyncResult = {
+      recreatedItemIds: [],
+      failedItemIds: [],
+    };
+    if (this.replicas.length === 0) return result;
+
+    // Let the writes already queued settle, so every copy is up to date.
+    const members = [this, ...this.replicas];
+    await Promise.all(
+      members.map((member) => member.enqueueWrite(() => undefined))
+    );
+
+    const itemIds =
+      ids ??
+      new Set(members.flatMap((member) => [...member.cachedItems.keys()]));
+    const recreatedIds = new Set<string>();
+    const failedIds = new Set<string>();
+    const copies: Promise<void>[] = [];
+    for (const id of itemIds) {
+      const source = this.getHealthyCopy(id);
+      if (!source) continue;
+
+      for (const member of members) {
+        if (member === source || member.isSameCopy(source, id)) continue;
+
+        copies.push(
+          member
+            .enqueueWrite(() => member.copyItemFrom(source, id))
+            .then((copied) => {
+              if (copied) recreatedIds.add(id);
+              else failedIds.add(id);
+            })
+            .catch((error) => {
+              console.warn(
+                `[ITEM_DATABASE] Failed to re-create Item (${id}) in "${member.typeId}": ${error}`
+              );
+              failedIds.add(id);
+            })
+        );
+      }
+    }
+    await Promise.all(copies);
+
+    result.recreatedItemIds = [...recreatedIds];
+    result.failedItemIds = [...failedIds];
+    if (copies.length > 0)
+      console.warn(
+        `[ITEM_DATABASE] Synced the replicas of "${this.typeId}", re-created ${result.recreatedItemIds.length}x items, ${result.failedItemIds.length}x failed`
+      );
+    return result;
+  }
+
+  /**
+   * Gets the database holding a healthy copy of an item,
+   * this database if it has one, otherwise the first replica that does.
+   *
+   * @param id - The ID of the item.
+   * @returns The database holding the copy, or undefined if no copy is healthy.
+   */
+  private getHealthyCopy(
+    id: IdentifierData["id"]
+  ): ItemDatabase<IdentifierData> | undefined {
+    return [this, ...this.replicas].find((member) => member.hasHealthyCopy(id));
+  }
+
+  /**
+   * Checks if this database holds an item, on an entity that is still valid.
+   *
+   * @param id - The ID of the item.
+   * @returns true if the item is held by a valid entity, false otherwise.
+   */
+  private hasHealthyCopy(id: IdentifierData["id"]): boolean {
+    const location = this.itemLocations.get(id);
+    if (!location || !this.cachedItems.has(id)) return false;
+
+    return this.databaseEntities.get(location.entityId)?.isValid ?? false;
+  }
+
+  /**
+   * Checks if this database holds a healthy copy of an item, equal to the copy of another database.
+   *
+   * @param other - The database holding the other copy.
+   * @param id - The ID of the item.
+   * @returns true if both copies are equal, false otherwise.
+   */
+  private isSameCopy(
+    other: ItemDatabase<IdentifierData>,
+    id: IdentifierData["id"]
+  ): boolean {
+    const item = this.cachedItems.get(id);
+    const otherItem = other.cachedItems.get(id);
+    const data = this.cachedData.get(id);
+    const otherData = other.cachedData.get(id);
+    if (!this.hasHealthyCopy(id) || !item || !otherItem || !data || !otherData)
+      return false;
+
+    return (
+      this.expirations.get(id) === other.expirations.get(id) &&
+      JSON.stringify(encodeItemData(data)) ===
+        JSON.stringify(encodeItemData(otherData)) &&
+      JSON.stringify(serializeItemStack(item)) ===
+        JSON.stringify(serializeItemStack(otherItem))
+    );
+  }
+
+  /**
+   * Stores a copy of an item held by another database of the same replica set.
+   * Must run inside the write queue.
+   *
+   * @param source - The database holding the copy.
+   * @param id - The ID of the item.
+   * @returns True if the item was copied, false if the source no longer holds it, or it could not be stored.
+   */
+  private async copyItemFrom(
+    source: ItemDatabase<IdentifierData>,
+    id: IdentifierData["id"]
+  ): Promise<boolean> {
+    const itemStack = source.cachedItems.get(id);
+    const data = source.cachedData.get(id);
+    if (!itemStack || !data) return false;
+
+    return this.storeItem(
+      itemStack,
+      cloneItemData(data),
+      source.expirations.get(id)
+    );
+  }
+
+  /**
+   * Applies a write to every replica of this database. Failed writes are logged,
+   * and caught up by the next `syncReplicas()`.
+   *
+   * @param write - The write to apply to a replica, resolving to false if it failed.
+   */
+  private async writeReplicas(
+    write: (replica: ItemDatabase<IdentifierData>) => Promise<boolean>
+  ) {
+    const results = await Promise.allSettled(this.replicas.map(write));
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled" && result.value) return;
+
+      console.warn(
+        `[ITEM_DATABASE] Failed to write to replica ${index + 1} of "${
+          this.typeId
+        }"${result.status === "rejected" ? `: ${result.reason}` : ""}`
+      );
+    });
+  }
+
+  /**
+   * Gets where and how this database stores its items.
+   *
+   * @returns A copy of the config of this database.
+   */
+  getConfig(): ItemDatabaseConfig {
+    return { ...this.config, location: { ...this.config.location } };
+  }
+
+  /**
+   * Loads this database once the world has loaded, called by `ItemDatabaseManager`.
+   *
+   * @param entities - The entities of this database that were already loaded.
+   */
+  handleWorldLoad(entities: Entity[]) {
+    // Keep the location of this database's entities loaded.
+    TickingAreaManager.acquire(
+      this.typeId,
+      this.config.dimension,
+      this.config.location
+    );
+
+    this.supersededEntityIds = this.readEntityIdSet(
+      SUPERSEDED_ENTITIES_PROPERTY_PREFIX
+    );
+    for (const entity of entities) this.loadEntity(entity);
+
+    // Worlds from before entities were tracked have none stored, so which entities
+    // exist is unknown until their chunk has loaded and been scanned.
+    const hasKnownEntities =
+      world.getDynamicProperty(
+        `${KNOWN_ENTITIES_PROPERTY_PREFIX}${this.typeId}`
+      ) !== undefined;
+    if (hasKnownEntities) this.loadKnownEntityIds();
+    else this.seedKnownEntityIds();
+
+    // Items quarantined before a restart are loaded along with this database.
+    const hasQuarantine =
+      world.getDynamicProperty(
+        `${KNOWN_ENTITIES_PROPERTY_PREFIX}${this.typeId}${QUARANTINE_TYPEID_SUFFIX}`
+      ) !== undefined;
+    if (hasQuarantine) this.getQuarantine();
+  }
+
+  /**
+   * Seeds the known entity ids from the entities found in the chunk of this database,
+   * once it has loaded, for worlds that have none stored yet.
+   */
+  private async seedKnownEntityIds() {
+    const isLoaded = await TickingAreaManager.waitUntilLoaded(
+      this.config.dimension,
+      this.config.location,
+      this.readyTimeoutTicks
+    );
+    if (!isLoaded)
+      console.warn(
+        `[ITEM_DATABASE] The entities of "${this.typeId}" did not load within ${this.readyTimeoutTicks} ticks, it may be missing items!`
+      );
+
+    try {
+      const entities = world
+        .getDimension(this.config.dimension)
+        .getEntities({ type: this.config.entityTypeId });
+      for (const entity of entities) this.loadEntity(entity);
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Failed to scan for the entities of "${this.typeId}": ${error}`
+      );
+    }
+
+    this.loadKnownEntityIds();
+  }
+
+  /**
+   * Reads the known entity ids, adding the entities that already loaded,
+   * and waits on the ones that have not loaded yet.
+   */
+  private loadKnownEntityIds() {
+    // Now the world has loaded, find out which entities we are still waiting on.
+    this.knownEntityIds = this.readEntityIdSet(KNOWN_ENTITIES_PROPERTY_PREFIX);
+    for (const entityId of this.databaseEntities.keys()) {
+      this.trackEntity(entityId);
+    }
+    this.updateReadiness();
+
+    // Entities removed while their chunk was unloaded never load again.
+    if (!this.isReady)
+      system.runTimeout(
+        () => this.dropMissingEntities(),
+        this.readyTimeoutTicks
+      );
+  }
+
+  /**
+   * Fetches the items of an entity of this database that loaded, called by `ItemDatabaseManager`.
+   *
+   * @param entity - The entity that loaded.
+   */
+  handleEntityLoad(entity: Entity) {
+    this.loadEntity(entity);
+  }
+
+  /**
+   * Handles an entity being removed, called by `ItemDatabaseManager`.
+   *
+   * @param removedEntityId - The ID of the removed entity.
+   */
+  handleEntityRemove(removedEntityId: string) {
+    // Check if the entity is one of our database entities
+    const isDatabaseEntity = this.databaseEntities.get(removedEntityId);
+    if (!isDatabaseEntity) return;
+
+    // Something caused this entity to be removed! Not good!
+    console.warn(
+      `Entity (${removedEntityId}) of "${this.typeId}" was removed!`
+    );
+
+    // Remove this entity from the database entities, as we don't want to fetch broken entities.
+    this.databaseEntities.delete(removedEntityId);
+    this.untrackEntity(removedEntityId);
+
+    const lostItemIds = this.itemStorageMap.get(removedEntityId) ?? [];
+    this.itemStorageMap.delete(removedEntityId);
+    this.events.emit("entityLost", {
+      entityId: removedEntityId,
+      lostItemIds,
+    });
+    if (lostItemIds.length === 0) return;
+
+    switch (this.recovery) {
+      case "auto":
+        this.recoverEntity(removedEntityId, lostItemIds);
+        break;
+      case "prompt-admin":
+        this.pendingRecoveries.set(removedEntityId, lostItemIds);
+        this.promptAdmins(
+          `§e[ITEM_DATABASE] Entity (${removedEntityId}) of "${this.typeId}" was removed with ${lostItemIds.length}x items, run /item_database:recover ${this.typeId} to recover them!`
+        );
+        break;
+      default:
+        // The items of this entity are gone with it, so drop them from the cache and indexes.
+        for (const itemId of lostItemIds) this.uncacheItem(itemId);
+    }
+  }
+
+  /**
+   * Registers an entity, and the items inside it, if it belongs to this database.
+   *
+   * @param entity - The entity that loaded.
+   */
+  private loadEntity(entity: Entity) {
+    if (!this.isDatabaseEntity(entity)) return;
+    if (this.databaseEntities.has(entity.id)) return;
+
+    // This entity was already replaced, its items are stale.
+    if (this.supersededEntityIds?.has(entity.id)) {
+      console.warn(
+        `[ITEM_DATABASE] Discarding Entity (${entity.id}) of "${this.typeId}", as it was replaced after being removed!`
+      );
+      entity.remove();
+      this.supersededEntityIds.delete(entity.id);
+      this.writeEntityIdSet(
+        SUPERSEDED_ENTITIES_PROPERTY_PREFIX,
+        this.supersededEntityIds
+      );
+      return;
+    }
+
+    this.databaseEntities.set(entity.id, entity);
+    console.log(
+      `[ITEM_DATABASE] Loaded Entity (${entity.id}) of "${this.typeId}"!`
+    );
+
+    // Fetch items from this entity.
+    const itemCount = this.registerEntityItems(entity);
+    console.log(
+      `[ITEM_DATABASE] Fetched ${itemCount}x items from Entity (${entity.id}) of "${this.typeId}"!`
+    );
+
+    this.trackEntity(entity.id);
+    this.updateReadiness();
+    this.events.emit("entityLoaded", { entityId: entity.id, itemCount });
+  }
+
+  /**
+   * Returns a promise that resolves once every known entity of this
+   * database has loaded, and its items are registered.
+   *
+   * @returns A promise resolving when this database is ready.
+   */
+  whenReady(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Marks this database as ready, once every known entity has loaded.
+   */
+  private updateReadiness() {
+    if (this.isReady || !this.knownEntityIds) return;
+    for (const entityId of this.knownEntityIds) {
+      if (!this.databaseEntities.has(entityId)) return;
+    }
+
+    this.isReady = true;
+    this.resolveReady();
+  }
+
+  /**
+   * Stops waiting on the known entities that never loaded, as they were most likely removed
+   * while their chunk was unloaded. Each is reported as lost, and forgotten, so this database
+   * becomes ready. An entity that still loads later is registered as usual.
+   */
+  private dropMissingEntities() {
+    if (this.isReady || !this.knownEntityIds) return;
+
+    const missingEntityIds = [...this.knownEntityIds].filter(
+      (entityId) => !this.databaseEntities.has(entityId)
+    );
+    for (const entityId of missingEntityIds) {
+      console.warn(
+        `[ITEM_DATABASE] Entity (${entityId}) of "${this.typeId}" did not load within ${this.readyTimeoutTicks} ticks, and is considered lost!`
+      );
+      this.untrackEntity(entityId);
+      this.events.emit("entityLost", { entityId, lostItemIds: [] });
+    }
+    this.updateReadiness();
+  }
+
+  /**
+   * Throws if reads should not happen yet, as this database is still loading.
+   *
+   * @throws DatabaseNotReadyError if strict reads are enabled, and this database is not ready.
+   */
+  private assertReady() {
+    if (this.strictReads && !this.isReady)
+      throw new DatabaseNotReadyError(this.typeId);
+  }
+
+  /**
+   * Reads a set of entity ids of this database, persisted on the world.
+   *
+   * @param propertyPrefix - The prefix of the world dynamic property they are stored in.
+   * @returns The entity ids.
+   */
+  private readEntityIdSet(propertyPrefix: string): Set<string> {
+    const rawEntityIds = world.getDynamicProperty(
+      `${propertyPrefix}${this.typeId}`
+    );
+    if (typeof rawEntityIds !== "string") return new Set();
+
+    try {
+      return new Set(JSON.parse(rawEntityIds) as string[]);
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Entity ids (${propertyPrefix}) of "${this.typeId}" are corrupted: ${error}`
+      );
+      return new Set();
+    }
+  }
+
+  /**
+   * Persists a set of entity ids of this database onto the world.
+   *
+   * @param propertyPrefix - The prefix of the world dynamic property to store them in.
+   * @param entityIds - The entity ids.
+   */
+  private writeEntityIdSet(propertyPrefix: string, entityIds: Set<string>) {
+    world.setDynamicProperty(
+      `${propertyPrefix}${this.typeId}`,
+      entityIds.size > 0 ? JSON.stringify([...entityIds]) : undefined
+    );
+  }
+
+  /**
+   * Persists the known entity ids onto the world.
+   */
+  private writeKnownEntityIds() {
+    if (!this.knownEntityIds) return;
+    this.writeEntityIdSet(KNOWN_ENTITIES_PROPERTY_PREFIX, this.knownEntityIds);
+  }
+
+  /**
+   * Remembers an entity as belonging to this database.
+   *
+   * @param entityId - The ID of the entity.
+   */
+  private trackEntity(entityId: string) {
+    if (!this.knownEntityIds || this.knownEntityIds.has(entityId)) return;
+    this.knownEntityIds.add(entityId);
+    this.writeKnownEntityIds();
+  }
+
+  /**
+   * Forgets an entity, so this database no longer waits for it to load.
+   *
+   * @param entityId - The ID of the entity.
+   */
+  private untrackEntity(entityId: string) {
+    if (!this.knownEntityIds || !this.knownEntityIds.delete(entityId)) return;
+    this.writeKnownEntityIds();
+  }
+
+  /**
+   * Sends a message to every player with admin permissions.
+   *
+   * @param message - The message to send.
+   */
+  private promptAdmins(message: string) {
+    console.warn(message);
+    for (const player of world.getPlayers()) {
+      if (player.commandPermissionLevel < CommandPermissionLevel.Admin)
+        continue;
+      player.sendMessage(message);
+    }
+  }
+
+  /**
+   * Recovers the items of every removed entity that is waiting on an admin.
+   *
+   * @returns A report for each removed entity.
+   */
+  async recoverLostEntities(): Promise<ItemDatabaseRecoveryReport[]> {
+    const pendingRecoveries = [...this.pendingRecoveries];
+    this.pendingRecoveries.clear();
+
+    return Promise.all(
+      pendingRecoveries.map(([lostEntityId, lostItemIds]) =>
+        this.recoverEntity(lostEntityId, lostItemIds)
+      )
+    );
+  }
+
+  /**
+   * Gets the removed entities whose items are waiting on an admin to be recovered.
+   *
+   * @returns The ids of the removed entities, and the ids of the items they held.
+   */
+  getPendingRecoveries(): { entityId: string; itemIds: string[] }[] {
+    return [...this.pendingRecoveries].map(([entityId, itemIds]) => ({
+      entityId,
+      itemIds: [...itemIds],
+    }));
+  }
+
+  /**
+   * Spawns a replacement for a removed entity, and writes the still-cached
+   * items it held into it.
+   *
+   * @param lostEntityId - The ID of the removed entity.
+   * @param lostItemIds - The ids of the items it held.
+   * @returns A report of the recovery.
+   */
+  private recoverEntity(
+    lostEntityId: string,
+    lostItemIds: string[]
+  ): Promise<ItemDatabaseRecoveryReport> {
+    return this.enqueueWrite(async () => {
+      const report: ItemDatabaseRecoveryReport = {
+        lostEntityId,
+        replacementEntityId: undefined,
+        recoveredItemIds: [],
+        failedItemIds: [],
+      };
+
+      // Items could have been removed or replaced since the entity was removed.
+      const itemIds = lostItemIds.filter(
+        (id) => this.itemLocations.get(id)?.entityId === lostEntityId
+      );
+      if (itemIds.length === 0) return report;
+
+      let replacement: Entity | undefined;
+      try {
+        replacement = await this.spawnDatabaseEntity();
+        report.replacementEntityId = replacement.id;
+      } catch (error) {
+        console.error(
+          `[ITEM_DATABASE] Failed to spawn replacement for Entity (${lostEntityId}) of "${this.typeId}": ${error}`
+        );
+      }
+
+      for (const id of itemIds) {
+        const itemStack = this.cachedItems.get(id);
+        const data = this.cachedData.get(id);
+        let location: ItemDatabaseItemLocation | undefined;
+        try {
+          if (replacement && itemStack && data)
+            location = this.storeInEntity(
+              replacement,
+              itemStack,
+              data,
+              this.expirations.get(id)
+            );
+        } catch (error) {
+          console.error(`Failed to recover item: ${error}`);
+        }
+
+        if (location) {
+          this.itemLocations.set(id, location);
+          report.recoveredItemIds.push(id);
+        } else {
+          this.uncacheItem(id);
+          report.failedItemIds.push(id);
+        }
+      }
+
+      // Make sure the removed entity is discarded, if it ever loads again.
+      if (this.supersededEntityIds && report.replacementEntityId) {
+        this.supersededEntityIds.add(lostEntityId);
+        this.writeEntityIdSet(
+          SUPERSEDED_ENTITIES_PROPERTY_PREFIX,
+          this.supersededEntityIds
+        );
+      }
+
+      console.warn(
+        `[ITEM_DATABASE] Recovered ${report.recoveredItemIds.length}x items of Entity (${lostEntityId}) of "${this.typeId}" into Entity (${report.replacementEntityId}), ${report.failedItemIds.length}x failed!`
+      );
+      this.events.emit("recovered", report);
+      return report;
+    });
+  }
+
+  /**
+   * Checks if an entity is a database entity.
+   *
+   * @param entity - The entity to check.
+   * @returns true if the entity is a entity of this database, false otherwise.
+   */
+  private isDatabaseEntity(entity: Entity): boolean {
+    if (!entity.isValid) return false;
+    if (entity.getDynamicProperty("databaseTypeId") != this.typeId)
+      return false;
+
+    // Valid Entity used for this database
+    return true;
+  }
+
+  /**
+   * Validates the configured inventory size against the real size of a
+   * database entity's container, adopting the real size if they disagree.
+   *
+   * @param container - The container of a database entity.
+   */
+  private validateInventorySize(container: Container) {
+    if (container.size === this.config.inventorySize) return;
+
+    console.warn(
+      `[ITEM_DATABASE] Inventory size of "${this.typeId}" is configured as ${this.config.inventorySize}, but "${this.config.entityTypeId}" has ${container.size} slots! Using ${container.size}.`
+    );
+    this.config.inventorySize = container.size;
+  }
+
+  /**
+   * Registers all items inside this entity.
+   *
+   * @param entity - The entity to register items from.
+   * @returns number of items registered.
+   */
+  private registerEntityItems(entity: Entity): number {
+    if (!entity.isValid) return 0;
+
+    const inventory = entity.getComponent("inventory");
+    if (!inventory || !inventory.isValid) return 0;
+    const inventoryContainer = inventory.container;
+    if (!inventoryContainer || !inventoryContainer.isValid) return 0;
+    this.validateInventorySize(inventoryContainer);
+
+    const entitiesItemIds = this.getEntityItemIds(entity);
+    assert(
+      entitiesItemIds.length == 0,
+      `Entity (${entity.id}) of "${this.typeId}" already has items registered!`
+    );
+
+    let itemCount = 0;
+    for (let i = 0; i < inventory.inventorySize; i++) {
+      const itemStack = inventoryContainer.getItem(i);
+      if (!itemStack) continue;
+
+      const itemId = this.getItemId(itemStack, entity, i);
+      if (!itemId) {
+        console.warn(
+          `Item (${itemStack.typeId}) of "${this.typeId}" lost its ID!`
+        );
+        this.events.emit("itemLostId", {
+          entityId: entity.id,
+          slot: i,
+          item: itemStack.clone(),
+        });
+        continue;
+      }
+
+      // Items whose record is invalid are reported, instead of loaded.
+      const location = { entityId: entity.id, slot: i };
+      const record = this.loadItemRecord(entity, itemId, location);
+      if (!record) continue;
+
+      // Items still using the "nameTag" encoding are moved to the current one.
+      const item = this.stripIdentity(itemStack, entity, i);
+      if (this.identity.decode(itemStack, entity, i) === undefined)
+        this.migrateLegacyItem(inventoryContainer, entity, i, item, itemId);
+
+      // Register this item to the cached items.
+      this.cacheItem(item, record.data, location, record.expiresAt);
+      entitiesItemIds.push(itemId);
+      itemCount++;
+    }
+
+    // Update the item storage map.
+    this.itemStorageMap.set(entity.id, entitiesItemIds);
+
+    return itemCount;
+  }
+
+  /**
+   * Clears all data stored in this database.
+   */
+  clear() {
+    const itemCount = this.cachedItems.size;
+
+    // Try catch as, we should still wipe catch even if this errors.
+    try {
+      for (const entity of this.databaseEntities.values()) {
+        if (!entity.isValid) continue;
+        entity.remove();
+      }
+    } catch (error) {
+      console.warn(`Failed to clear database: ${error}`);
+    }
+
+    this.databaseEntities.clear();
+    this.pendingRecoveries.clear();
+    this.invalidRecords.clear();
+    this.ownerItemCounts.clear();
+    this.expirations.clear();
+    this.expirationQueue = [];
+    this.updateExpirySweeper();
+    this.reservations.clear();
+    this.projections?.clear();
+    this.knownEntityIds?.clear();
+    this.writeKnownEntityIds();
+    this.cachedItems.clear();
+    this.cachedData.clear();
+    this.sortedItemIds = [];
+    this.itemStorageMap.clear();
+    this.itemLocations.clear();
+    for (const index of this.indexes.values()) index.clear();
+
+    // No entities are left to keep loaded.
+    TickingAreaManager.release(
+      this.typeId,
+      this.config.dimension,
+      this.config.location
+    );
+
+    this.events.emit("cleared", { itemCount });
+    for (const replica of this.replicas) replica.clear();
+  }
+
+  /**
+   * Gets the container of an entity, if it is valid.
+   *
+   * @param entity - The entity to get the container of.
+   * @returns The container, or undefined if the entity or container is not valid.
+   */
+  private getEntityContainer(entity: Entity): Container | undefined {
+    if (!entity.isValid) return;
+
+    const inventory = entity.getComponent("inventory");
+    if (!inventory || !inventory.isValid) return;
+    const inventoryContainer = inventory.container;
+    if (!inventoryContainer || !inventoryContainer.isValid) return;
+
+    return inventoryContainer;
+  }
+
+  /**
+   * Verifies the integrity of this database, by scanning the container of
+   * every database entity and comparing it against the item storage map.
+   *
+   * @returns A report of every problem found.
+   */
+  async verify(): Promise<ItemDatabaseIntegrityReport> {
+    return this.enqueueWrite(() => this.scanIntegrity());
+  }
+
+  /**
+   * Scans every database entity for integrity problems.
+   * Must only be called from within the write queue.
+   *
+   * @returns A report of every problem found.
+   */
+  private async scanIntegrity(): Promise<ItemDatabaseIntegrityReport> {
+    const report: ItemDatabaseIntegrityReport = {
+      itemsWithoutId: [],
+      duplicateIds: [],
+      missingItems: [],
+      emptyEntities: [],
+    };
+    await runJobAsync(this.verifyJob(report));
+    return report;
+  }
+
+  /**
+   * Job that scans every database entity, yielding after each entity.
+   *
+   * @param report - The report to add the found problems to.
+   */
+  private *verifyJob(
+    report: ItemDatabaseIntegrityReport
+  ): Generator<void, void, void> {
+    const foundLocations = new Map<string, ItemDatabaseItemLocation[]>();
+    for (const [entityId, entity] of this.databaseEntities) {
+      const inventoryContainer = this.getEntityContainer(entity);
+      if (!inventoryContainer) continue;
+
+      let itemCount = 0;
+      for (let slot = 0; slot < inventoryContainer.size; slot++) {
+        const itemStack = inventoryContainer.getItem(slot);
+        if (!itemStack) continue;
+        itemCount++;
+
+        const itemId = this.getItemId(itemStack, entity, slot);
+        if (!itemId) {
+          report.itemsWithoutId.push({
+            entityId,
+            slot,
+            typeId: itemStack.typeId,
+          });
+          continue;
+        }
+
+        const locations = foundLocations.get(itemId) ?? [];
+        locations.push({ entityId, slot });
+        foundLocations.set(itemId, locations);
+      }
+
+      if (itemCount === 0) report.emptyEntities.push(entityId);
+      yield;
+    }
+
+    for (const [id, locations] of foundLocations) {
+      if (locations.length > 1) report.duplicateIds.push({ id, locations });
+    }
+
+    // Compare what was found against what the item storage map expects.
+    for (const [entityId, itemIds] of this.itemStorageMap) {
+      const entity = this.databaseEntities.get(entityId);
+      if (!entity || !this.getEntityContainer(entity)) continue;
+
+      for (const id of new Set(itemIds)) {
+        const locations = foundLocations.get(id) ?? [];
+        if (locations.some((location) => location.entityId === entityId))
+          continue;
+
+        report.missingItems.push({ id, entityId });
+      }
+    }
+  }
+
+  /**
+   * Verifies the integrity of this database, and fixes the problems found.
+   * Orphaned items, and extra copies of duplicated ids, are moved into the
+   * quarantine collection rather than deleted.
+   *
+   * @param options - Options to repair with.
+   * @returns The problems found, and what was done to fix them.
+   */
+  async repair(
+    options: ItemDatabaseRepairOptions = {}
+  ): Promise<ItemDatabaseRepairResult> {
+    // Scanned within the same write as the fixes, so no other write can
+    // change the entities in between and leave the report out of date.
+    return this.enqueueWrite(async () => {
+      const report = await this.scanIntegrity();
+      const result: ItemDatabaseRepairResult = {
+        report,
+        dryRun: options.dryRun ?? false,
+        quarantinedItemIds: [],
+        droppedItemIds: [],
+        removedEntityIds: [],
+      };
+      if (result.dryRun) return result;
+
+      const affectedEntityIds = new Set<string>();
+
+      // Move items without an id into quarantine.
+      for (const location of report.itemsWithoutId) {
+        const quarantinedId = await this.quarantineSlot(location);
+        if (quarantinedId) result.quarantinedItemIds.push(quarantinedId);
+      }
+
+      // Keep a single copy of each duplicated id, quarantining the others.
+      for (const { id, locations } of report.duplicateIds) {
+        const recordedLocation = this.itemLocations.get(id);
+        const keptLocation =
+          locations.find(
+            (location) =>
+              location.entityId === recordedLocation?.entityId &&
+              location.slot === recordedLocation.slot
+          ) ?? locations[0];
+        if (!keptLocation) continue;
+        this.itemLocations.set(id, keptLocation);
+
+        for (const location of locations) {
+          if (location === keptLocation) continue;
+
+          const quarantinedId = await this.quarantineSlot(location, id);
+          if (quarantinedId) result.quarantinedItemIds.push(quarantinedId);
+          affectedEntityIds.add(location.entityId);
+
+          // The record of the id only belongs on the entity keeping it.
+          if (location.entityId !== keptLocation.entityId)
+            this.databaseEntities
+              .get(location.entityId)
+              ?.setDynamicProperty(this.getItemRecordKey(id), undefined);
+        }
+        affectedEntityIds.add(keptLocation.entityId);
+      }
+
+      // Drop items from the cache, whose slot is actually empty.
+      for (const { id, entityId } of report.missingItems) {
+        const location = this.itemLocations.get(id);
+        if (location?.entityId === entityId) {
+          this.databaseEntities
+            .get(entityId)
+            ?.setDynamicProperty(this.getItemRecordKey(id), undefined);
+          this.uncacheItem(id);
+          result.droppedItemIds.push(id);
+        }
+        affectedEntityIds.add(entityId);
+      }
+
+      // Rebuild the item storage map of every entity that was touched.
+      for (const entityId of affectedEntityIds) {
+        const itemIds: string[] = [];
+        for (const [id, location] of this.itemLocations) {
+          if (location.entityId === entityId) itemIds.push(id);
+        }
+        this.itemStorageMap.set(entityId, itemIds);
+      }
+
+      // Remove entities that hold nothing.
+      for (const entityId of report.emptyEntities) {
+        if (this.removeEmptyEntity(entityId))
+          result.removedEntityIds.push(entityId);
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Moves items into as few entities as possible, filling the fullest entities first,
+   * and removes the entities that end up empty. Each item is moved within a single tick,
+   * spread across ticks so it never trips the watchdog.
+   *
+   * @param onProgress - Called after each item with the amount of items processed.
+   * @returns The items that were moved, and the entities that were removed.
+   */
+  async compact(
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Promise<ItemDatabaseCompactionResult> {
+    const result = await this.enqueueWrite(async () => {
+      const result: ItemDatabaseCompactionResult = {
+        movedItemIds: [],
+        removedEntityIds: [],
+      };
+      await runJobAsync(this.compactJob(result, onProgress));
+
+      if (result.movedItemIds.length > 0 || result.removedEntityIds.length > 0)
+        this.events.emit("compacted", result);
+      return result;
+    });
+
+    for (const replica of this.replicas) await replica.compact();
+    return result;
+  }
+
+  /**
+   * Job that empties the entities that aren't needed to hold every item, yielding after each item.
+   *
+   * @param result - The result to add the moved items, and removed entities to.
+   * @param onProgress - Called after each item with the amount of items processed.
+   */
+  private *compactJob(
+    result: ItemDatabaseCompactionResult,
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Generator<void, void, void> {
+    const entityIds = this.getLoadedEntityIds().sort(
+      (a, b) =>
+        this.getEntityItemIds({ id: b }).length -
+        this.getEntityItemIds({ id: a }).length
+    );
+
+    // The fullest entities are kept, as they need the fewest moves to fill up.
+    const keptCount = Math.ceil(
+      this.countItems(entityIds) / this.config.inventorySize
+    );
+    const keptEntityIds = entityIds.slice(0, keptCount);
+    const drainedEntityIds = entityIds.slice(keptCount);
+    const total = this.countItems(drainedEntityIds);
+
+    let processed = 0;
+    for (const entityId of drainedEntityIds) {
+      for (const id of [...this.getEntityItemIds({ id: entityId })]) {
+        if (this.moveItem(id, keptEntityIds)) result.movedItemIds.push(id);
+
+        onProgress?.(++processed, total);
+        yield;
+      }
+
+      if (this.removeEmptyEntity(entityId))
+        result.removedEntityIds.push(entityId);
+    }
+  }
+
+  /**
+   * Moves a stored item into the first of some entities that has room for it.
+   * The item is stored in its new slot before its old slot is cleared.
+   *
+   * @param id - The ID of the item to move.
+   * @param targetEntityIds - The entities to move the item into, in order of preference.
+   * @returns True if the item was moved, false otherwise.
+   */
+  private moveItem(
+    id: IdentifierData["id"],
+    targetEntityIds: string[]
+  ): boolean {
+    const location = this.itemLocations.get(id);
+    const itemStack = this.cachedItems.get(id);
+    const data = this.cachedData.get(id);
+    if (!location || !itemStack || !data) return false;
+
+    const source = this.databaseEntities.get(location.entityId);
+    const sourceContainer = source && this.getEntityContainer(source);
+    if (!source || !sourceContainer) return false;
+    const slot = this.isItemInSlot(source, sourceContainer, location.slot, id)
+      ? location.slot
+      : this.findItemSlot(source, sourceContainer, id);
+    if (slot === undefined) return false;
+
+    for (const targetEntityId of targetEntityIds) {
+      const target = this.databaseEntities.get(targetEntityId);
+      if (!target || target === source) continue;
+
+      let newLocation: ItemDatabaseItemLocation | undefined;
+      try {
+        newLocation = this.storeInEntity(
+          target,
+          itemStack,
+          data,
+          this.expirations.get(id)
+        );
+      } catch (error) {
+        console.warn(
+          `[ITEM_DATABASE] Failed to move Item (${id}) of "${this.typeId}" into Entity (${targetEntityId}): ${error}`
+        );
+      }
+      if (!newLocation) continue;
+
+      sourceContainer.setItem(slot, undefined);
+      this.identity.release(source, slot);
+      source.setDynamicProperty(this.getItemRecordKey(id), undefined);
+      this.itemStorageMap.set(
+        source.id,
+        this.getEntityItemIds(source).filter((itemId) => itemId !== id)
+      );
+      this.itemLocations.set(id, newLocation);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Removes an entity of this database, if it holds nothing.
+   *
+   * @param entityId - The ID of the entity.
+   * @returns True if the entity was removed, false otherwise.
+   */
+  private removeEmptyEntity(entityId: string): boolean {
+    const entity = this.databaseEntities.get(entityId);
+    if (!entity || this.getEntityItemIds(entity).length > 0) return false;
+
+    // Items whose record is invalid still take up a slot.
+    const inventoryContainer = this.getEntityContainer(entity);
+    if (
+      !inventoryContainer ||
+      inventoryContainer.emptySlotsCount < inventoryContainer.size
+    )
+      return false;
+
+    // Forget the entity first, so its removal is not treated as a loss.
+    this.databaseEntities.delete(entityId);
+    this.itemStorageMap.delete(entityId);
+    this.untrackEntity(entityId);
+    entity.remove();
+    return true;
+  }
+
+  /**
+   * Gets the ids of the database entities that are loaded, and valid.
+   *
+   * @returns The ids of the entities.
+   */
+  private getLoadedEntityIds(): string[] {
+    return [...this.itemStorageMap.keys()].filter(
+      (entityId) => this.databaseEntities.get(entityId)?.isValid
+    );
+  }
+
+  /**
+   * Counts the items stored in some entities.
+   *
+   * @param entityIds - The ids of the entities.
+   * @returns The amount of items they hold.
+   */
+  private countItems(entityIds: string[]): number {
+    let itemCount = 0;
+    for (const entityId of entityIds)
+      itemCount += this.getEntityItemIds({ id: entityId }).length;
+
+    return itemCount;
+  }
+
+  /**
+   * Gets how full the loaded database entities are.
+   *
+   * @returns The ratio (0 to 1) of slots holding items, 1 if there are no entities.
+   */
+  getFillRatio(): number {
+    const entityIds = this.getLoadedEntityIds();
+    if (entityIds.length === 0) return 1;
+
+    return (
+      this.countItems(entityIds) /
+      (entityIds.length * this.config.inventorySize)
+    );
+  }
+
+  /**
+   * Queues a compaction, if the fill ratio dropped below `autoCompactThreshold`,
+   * and compacting would remove at least one entity.
+   */
+  private autoCompact() {
+    if (this.autoCompactThreshold === undefined || this.isAutoCompacting)
+      return;
+    if (this.getFillRatio() >= this.autoCompactThreshold) return;
+
+    const entityIds = this.getLoadedEntityIds();
+    const neededEntities = Math.ceil(
+      this.countItems(entityIds) / this.config.inventorySize
+    );
+    if (neededEntities >= entityIds.length) return;
+
+    this.isAutoCompacting = true;
+    this.compact()
+      .catch((error) =>
+        console.warn(
+          `[ITEM_DATABASE] Failed to compact "${this.typeId}": ${error}`
+        )
+      )
+      .finally(() => (this.isAutoCompacting = false));
+  }
+
+  /**
+   * Gets the collection orphaned items are moved into when this database is repaired.
+   * It is only created once it is first needed, or when this database loads while
+   * it has entities, so databases that never quarantine anything don't load a
+   * second collection, with its own ticking area and sweeper.
+   *
+   * @returns The quarantine collection, or undefined if this database is itself a quarantine or replica collection.
+   */
+  getQuarantine(): ItemDatabase<ItemDatabaseItemStackData> | undefined {
+    if (this.typeId.endsWith(QUARANTINE_TYPEID_SUFFIX) || this.isReplica)
+      return undefined;
+
+    const quarantineTypeId = `${this.typeId}${QUARANTINE_TYPEID_SUFFIX}`;
+    this.quarantine ??=
+      ItemDatabaseManager.get(quarantineTypeId) ??
+      new ItemDatabase(quarantineTypeId, {
+        ...this.config,
+        recovery: this.recovery,
+        identity: this.identity,
+      });
+    return this.quarantine;
+  }
+
+  /**
+   * Moves the item in a slot of a database entity into the quarantine collection.
+   *
+   * @param location - The entity and slot of the item.
+   * @param originalId - The id the item was stored with, if it still had one.
+   * @returns The id the item was quarantined with, or undefined if it failed.
+   */
+  private async quarantineSlot(
+    location: ItemDatabaseItemLocation,
+    originalId?: string
+  ): Promise<string | undefined> {
+    const quarantine = this.getQuarantine();
+    if (!quarantine) return;
+
+    const entity = this.databaseEntities.get(location.entityId);
+    if (!entity) return;
+    const inventoryContainer = this.getEntityContainer(entity);
+    const encodedItemStack = inventoryContainer?.getItem(location.slot);
+    if (!inventoryContainer || !encodedItemStack) return;
+
+    // Strip the old identifier, to keep the original name of the item.
+    const itemStack = originalId
+      ? this.stripIdentity(encodedItemStack, entity, location.slot)
+      : encodedItemStack;
+
+    // Only clear the slot once the item is safely stored in quarantine.
+    const id = generateUniqueId();
+    const stored = await quarantine.setItem(itemStack, {
+      id,
+      sourceTypeId: this.typeId,
+      sourceEntityId: location.entityId,
+      sourceSlot: location.slot.toString(),
+      originalId: originalId ?? "",
+      quarantinedAt: Date.now().toString(),
+    });
+    if (!stored) {
+      console.warn(
+        `[ITEM_DATABASE] Failed to quarantine Item (${itemStack.typeId}) of "${this.typeId}"!`
+      );
+      return;
+    }
+
+    inventoryContainer.setItem(location.slot, undefined);
+    this.identity.release(entity, location.slot);
+    return id;
+  }
+
+  /**
+   * Adds an item to the cached items, and the secondary indexes.
+   *
+   * @param itemStack - The itemStack as it is stored.
+   * @param data - The data of the item.
+   * @param location - Where the item is stored.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   */
+  private cacheItem(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    location: ItemDatabaseItemLocation,
+    expiresAt?: number
+  ) {
+    if (!this.cachedItems.has(data.id)) {
+      const sortedIndex = binarySearch(this.sortedItemIds, data.id);
+      this.sortedItemIds.splice(sortedIndex, 0, data.id);
+    }
+
+    const previousData = this.cachedData.get(data.id);
+    if (previousData) this.countOwnerItem(previousData, -1);
+    this.countOwnerItem(data, 1);
+
+    this.cachedItems.set(data.id, itemStack);
+    this.cachedData.set(data.id, data);
+    this.projections?.delete(data.id);
+    this.itemLocations.set(data.id, location);
+    this.setExpiration(data.id, expiresAt);
+    for (const index of this.indexes.values()) index.add(data.id, data);
+  }
+
+  /**
+   * Removes an item from the cached items, and the secondary indexes.
+   *
+   * @param id - The ID of the item.
+   */
+  private uncacheItem(id: IdentifierData["id"]) {
+    const data = this.cachedData.get(id);
+    if (data) {
+      for (const index of this.indexes.values()) index.remove(id, data);
+      this.countOwnerItem(data, -1);
+    }
+
+    const sortedIndex = binarySearch(this.sortedItemIds, id);
+    if (this.sortedItemIds[sortedIndex] === id)
+      this.sortedItemIds.splice(sortedIndex, 1);
+
+    this.cachedItems.delete(id);
+    this.cachedData.delete(id);
+    this.projections?.delete(id);
+    this.itemLocations.delete(id);
+    this.setExpiration(id, undefined);
+  }
+
+  /**
+   * Sets, or clears, when an item expires.
+   *
+   * @param id - The ID of the item.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   */
+  private setExpiration(id: IdentifierData["id"], expiresAt?: number) {
+    const previousExpiresAt = this.expirations.get(id);
+    if (previousExpiresAt !== undefined) {
+      const index = binarySearch(
+        this.expirationQueue,
+        { id, expiresAt: previousExpiresAt },
+        compareExpirations
+      );
+      if (this.expirationQueue[index]?.id === id)
+        this.expirationQueue.splice(index, 1);
+      this.expirations.delete(id);
+    }
+
+    if (expiresAt !== undefined) {
+      const expiration = { id, expiresAt };
+      this.expirations.set(id, expiresAt);
+      this.expirationQueue.splice(
+        binarySearch(this.expirationQueue, expiration, compareExpirations),
+        0,
+        expiration
+      );
+    }
+    this.updateExpirySweeper();
+  }
+
+  /**
+   * Starts sweeping expired items once this database has items that expire, and stops
+   * once it has none left. Replicas never sweep, as the database they replicate
+   * removes their expired copies, so every copy expires at once.
+   */
+  private updateExpirySweeper() {
+    const shouldSweep = this.expirationQueue.length > 0 && !this.isReplica;
+    if (shouldSweep && this.expirySweepRunId === undefined) {
+      this.expirySweepRunId = system.runInterval(
+        () => this.sweepExpired(),
+        this.expirySweepIntervalTicks
+      );
+    } else if (!shouldSweep && this.expirySweepRunId !== undefined) {
+      system.clearRun(this.expirySweepRunId);
+      this.expirySweepRunId = undefined;
+    }
+  }
+
+  /**
+   * Resolves when an item stored with some options expires.
+   *
+   * @param options - The options the item is stored with.
+   * @returns When the item expires, in milliseconds since the epoch, undefined if it never expires.
+   * @throws if the expiry is not a valid time.
+   */
+  private resolveExpiresAt(
+    options: ItemDatabaseSetOptions
+  ): number | undefined {
+    const expiresAt =
+      options.expiresAt instanceof Date
+        ? options.expiresAt.getTime()
+        : options.expiresAt ??
+          (options.ttl !== undefined ? Date.now() + options.ttl : undefined);
+    assert(
+      expiresAt === undefined || Number.isFinite(expiresAt),
+      `Expiry of items of "${this.typeId}" must be a valid time!`
+    );
+
+    return expiresAt;
+  }
+
+  /**
+   * Gets when an item expires.
+   *
+   * @param id - The ID of the item.
+   * @returns When the item expires, in milliseconds since the epoch, or undefined if it never expires.
+   */
+  getItemExpiry(id: IdentifierData["id"]): number | undefined {
+    return this.expirations.get(id);
+  }
+
+  /**
+   * Removes the items that have expired, at most `expirySweep.batchSize` per sweep,
+   * from this database and its replicas, and emits an `expired` event for each of them.
+   * Called on an interval, while this database has items that expire.
+   */
+  private sweepExpired() {
+    const nextExpiration = this.expirationQueue[0];
+    if (this.isSweeping || !nextExpiration) return;
+    if (nextExpiration.expiresAt > Date.now()) return;
+
+    this.isSweeping = true;
+    this.enqueueWrite(async () => {
+      const now = Date.now();
+      const expired: ItemExpiration[] = [];
+      for (const expiration of this.expirationQueue) {
+        if (expired.length >= this.expirySweepBatchSize) break;
+        if (expiration.expiresAt > now) break;
+        expired.push(expiration);
+      }
+
+      // Items a replica failed to remove are kept, and retried on the next sweep.
+      const failedIds = await this.removeFromReplicas(
+        expired.map(({ id }) => id)
+      );
+      for (const { id, expiresAt } of expired) {
+        if (failedIds.has(id)) continue;
+
+        try {
+          const item = this.cloneStoredItem(id);
+          const data = this.cachedData.get(id);
+          this.removeEntry(id);
+          if (!item || !data || this.itemLocations.has(id)) continue;
+
+          this.events.emit("expired", {
+            id,
+            item,
+            data: cloneItemData(data),
+            expiresAt,
+          });
+        } catch (error) {
+          console.warn(
+            `[ITEM_DATABASE] Failed to remove expired Item (${id}) of "${this.typeId}": ${error}`
+          );
+        }
+      }
+    }).finally(() => (this.isSweeping = false));
+  }
+
+  /**
+   * Gets the owner of an item, from the `ownerField` of its data.
+   *
+   * @param data - The data of the item.
+   * @returns The owner, or undefined if owners aren't tracked or the item has none.
+   */
+  private getOwner(
+    data: IdentifierData
+  ): ItemDatabaseMetadataValue | undefined {
+    const { ownerField } = this.limits;
+    if (ownerField === undefined) return undefined;
+
+    return data[ownerField] as ItemDatabaseMetadataValue | undefined;
+  }
+
+  /**
+   * Gets the key an owner is counted under, so equal dates, arrays and objects share a key.
+   *
+   * @param owner - The owner to get the key of.
+   * @returns The key of the owner.
+   */
+  private getOwnerKey(owner: ItemDatabaseMetadataValue): string {
+    return JSON.stringify(encodeValue(owner));
+  }
+
+  /**
+   * Adds or subtracts an item from the item count of its owner.
+   *
+   * @param data - The data of the item.
+   * @param change - 1 when the item is added, -1 when it is removed.
+   */
+  private countOwnerItem(data: IdentifierData, change: 1 | -1) {
+    const owner = this.getOwner(data);
+    if (owner === undefined) return;
+
+    const ownerKey = this.getOwnerKey(owner);
+    const count = (this.ownerItemCounts.get(ownerKey) ?? 0) + change;
+    if (count > 0) this.ownerItemCounts.set(ownerKey, count);
+    else this.ownerItemCounts.delete(ownerKey);
+  }
+
+  /**
+   * Gets the amount of entities this database has, including the ones that are not loaded.
+   *
+   * @returns The amount of entities.
+   */
+  private getEntityCount(): number {
+    if (!this.knownEntityIds) return this.databaseEntities.size;
+
+    let entityCount = this.knownEntityIds.size;
+    for (const entityId of this.databaseEntities.keys()) {
+      if (!this.knownEntityIds.has(entityId)) entityCount++;
+    }
+
+    return entityCount;
+  }
+
+  /**
+   * Gets how many more items this database can take, within its limits.
+   *
+   * @param owner - The owner to also get the remaining items of, as it is stored in the `ownerField`.
+   * @returns The remaining capacity, `Infinity` where unlimited.
+   */
+  getRemainingCapacity(
+    owner?: ItemDatabaseMetadataValue
+  ): ItemDatabaseCapacity {
+    const { maxItems, maxEntities, maxItemsPerOwner } = this.limits;
+    const entities =
+      maxEntities === undefined
+        ? Infinity
+        : Math.max(0, maxEntities - this.getEntityCount());
+    const items = Math.min(
+      maxItems === undefined
+        ? Infinity
+        : Math.max(0, maxItems - this.itemLocations.size),
+      this.getFreeSlotCount() + entities * this.config.inventorySize
+    );
+    if (owner === undefined) return { items, entities };
+
+    const ownerItemCount =
+      this.ownerItemCounts.get(this.getOwnerKey(owner)) ?? 0;
+    return {
+      items,
+      entities,
+      owner: Math.min(
+        items,
+        maxItemsPerOwner === undefined || this.limits.ownerField === undefined
+          ? Infinity
+          : Math.max(0, maxItemsPerOwner - ownerItemCount)
+      ),
+    };
+  }
+
+  /**
+   * Throws if storing an item would exceed a limit of this database.
+   * Replacing an item only counts towards the limits it didn't already count towards.
+   *
+   * @param data - The data of the item to store.
+   * @throws QuotaExceededError if a limit would be exceeded.
+   */
+  private assertWithinLimits(data: IdentifierData) {
+    const { maxItems, maxEntities, maxItemsPerOwner } = this.limits;
+    const previousData = this.itemLocations.has(data.id)
+      ? this.cachedData.get(data.id)
+      : undefined;
+
+    if (!previousData) {
+      if (maxItems !== undefined && this.itemLocations.size >= maxItems)
+        throw new QuotaExceededError(this.typeId, "maxItems", maxItems);
+      if (
+        maxEntities !== undefined &&
+        this.getFreeSlotCount() === 0 &&
+        this.getEntityCount() >= maxEntities
+      )
+        throw new QuotaExceededError(this.typeId, "maxEntities", maxEntities);
+    }
+
+    const owner = this.getOwner(data);
+    if (maxItemsPerOwner === undefined || owner === undefined) return;
+
+    // The item already counts towards this owner.
+    const ownerKey = this.getOwnerKey(owner);
+    const previousOwner = previousData && this.getOwner(previousData);
+    if (
+      previousOwner !== undefined &&
+      this.getOwnerKey(previousOwner) === ownerKey
+    )
+      return;
+
+    if ((this.ownerItemCounts.get(ownerKey) ?? 0) >= maxItemsPerOwner)
+      throw new QuotaExceededError(
+        this.typeId,
+        "maxItemsPerOwner",
+        maxItemsPerOwner,
+        owner
+      );
+  }
+
+  /**
+   * Gets all item ids that are stored in an entity.
+   *
+   * @param entity - The entity to get the item ids from.
+   * @returns The item ids that are stored in the entity.
+   */
+  getEntityItemIds(entity: { id: string }): string[] {
+    if (!this.databaseEntities.has(entity.id)) return [];
+    return this.itemStorageMap.get(entity.id) ?? [];
+  }
+
+  /**
+   * Gets all items inside this database.
+   * @returns itemStacks that are valid.
+   */
+  getAllItems(): ItemStack[] {
+    this.assertReady();
+    return Array.from(this.cachedItems.values());
+  }
+
+  /**
+   * Fetches all item ids for all items
+   *
+   * @returns
+   */
+  getAllItemIds(): string[] {
+    this.assertReady();
+    return Array.from(this.cachedItems.keys());
+  }
+
+  /**
+   * Gets the dynamic property key used to store the record of an item.
+   *
+   * @param id - The ID of the item.
+   * @returns The dynamic property key.
+   */
+  private getItemRecordKey(id: IdentifierData["id"]): string {
+    return `${ITEM_RECORD_PROPERTY_PREFIX}${id}`;
+  }
+
+  /**
+   * Writes the record of an item onto the entity that holds it.
+   *
+   * @param entity - The entity that holds the item.
+   * @param data - The data of the item.
+   */
+  private writeItemRecord(
+    entity: Entity,
+    data: IdentifierData,
+    expiresAt?: number
+  ) {
+    const record: ItemDatabaseStoredItemRecord = {
+      data: encodeItemData(data),
+    };
+    if (this.schema) record.schemaVersion = this.schema.version;
+    if (expiresAt !== undefined) record.expiresAt = expiresAt;
+    entity.setDynamicProperty(
+      this.getItemRecordKey(data.id),
+      JSON.stringify(record)
+    );
+  }
+
+  /**
+   * Reads the record of an item from the entity that holds it.
+   *
+   * @param entity - The entity that holds the item.
+   * @param id - The ID of the item.
+   * @returns The stored record, or a record only containing the id if none was stored.
+   */
+  private readItemRecord(
+    entity: Entity,
+    id: IdentifierData["id"]
+  ): ItemDatabaseItemRecord<IdentifierData> {
+    const rawRecord = entity.getDynamicProperty(this.getItemRecordKey(id));
+
+    // Items stored before records were persisted only have their id.
+    if (typeof rawRecord !== "string")
+      return { data: { id } as IdentifierData };
+
+    try {
+      const record = JSON.parse(rawRecord) as ItemDatabaseStoredItemRecord;
+      const data = decodeItemData<IdentifierData>({ ...record.data, id });
+      return { ...record, data };
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Record of Item (${id}) of "${this.typeId}" is corrupted: ${error}`
+      );
+      return { data: { id } as IdentifierData };
+    }
+  }
+
+  /**
+   * Loads the record of a stored item, migrating its data to the current schema version,
+   * and validating it. Records that were migrated are written back.
+   *
+   * @param entity - The entity that holds the item.
+   * @param id - The ID of the item.
+   * @param location - Where the item is stored.
+   * @returns The record of the item, or undefined if it is invalid.
+   */
+  private loadItemRecord(
+    entity: Entity,
+    id: IdentifierData["id"],
+    location: ItemDatabaseItemLocation
+  ): ItemDatabaseItemRecord<IdentifierData> | undefined {
+    const record = this.readItemRecord(entity, id);
+    if (!this.schema) return record;
+
+    const schemaVersion = record.schemaVersion ?? 1;
+    let data: IdentifierData;
+    try {
+      data = migrateItemData(this.schema, record.data, schemaVersion);
+    } catch (error) {
+      this.reportInvalidRecord({
+        id,
+        location,
+        schemaVersion,
+        issues: [`${error}`],
+      });
+      return undefined;
+    }
+
+    const issues = validateItemData(this.schema, data);
+    if (issues.length > 0) {
+      this.reportInvalidRecord({ id, location, schemaVersion, issues });
+      return undefined;
+    }
+
+    // Persist the upgrade, so the migrations only run once.
+    if (schemaVersion !== this.schema.version)
+      this.writeItemRecord(entity, data, record.expiresAt);
+    return { ...record, data };
+  }
+
+  /**
+   * Remembers, and reports, a stored record that failed validation.
+   *
+   * @param invalidRecord - The invalid record.
+   */
+  private reportInvalidRecord(invalidRecord: ItemDatabaseInvalidRecord) {
+    console.warn(
+      `[ITEM_DATABASE] Record of Item (${invalidRecord.id}) of "${
+        this.typeId
+      }" is invalid, it was not loaded: ${invalidRecord.issues.join(", ")}`
+    );
+    this.invalidRecords.set(invalidRecord.id, invalidRecord);
+    this.events.emit("invalidRecord", invalidRecord);
+  }
+
+  /**
+   * Gets every stored record that failed validation when it loaded.
+   * Their items stay in the database entities, but can't be read.
+   *
+   * @returns The invalid records.
+   */
+  getInvalidRecords(): ItemDatabaseInvalidRecord[] {
+    return [...this.invalidRecords.values()];
+  }
+
+  /**
+   * Removes the item of an invalid record, as a new item is stored under its id.
+   *
+   * @param id - The ID of the item.
+   */
+  private discardInvalidRecord(id: IdentifierData["id"]) {
+    const invalidRecord = this.invalidRecords.get(id);
+    if (!invalidRecord) return;
+    this.invalidRecords.delete(id);
+
+    const { entityId, slot } = invalidRecord.location;
+    const entity = this.databaseEntities.get(entityId);
+    const inventoryContainer = entity && this.getEntityContainer(entity);
+    if (!entity || !inventoryContainer) return;
+
+    inventoryContainer.setItem(slot, undefined);
+    this.identity.release(entity, slot);
+
+    // The record is shared with the item replacing it, if that landed on the same entity.
+    if (this.itemLocations.get(id)?.entityId !== entityId)
+      entity.setDynamicProperty(this.getItemRecordKey(id), undefined);
+  }
+
+  /**
+   * Throws if the identity encoder of this database can't encode an item,
+   * such as a stackable item under the "dynamicProperty" identity.
+   *
+   * @param itemStack - The item to check.
+   * @param id - The id of the item.
+   * @throws if the item can't be encoded.
+   */
+  private assertEncodable(itemStack: ItemStack, id: IdentifierData["id"]) {
+    this.identity.assertEncodable?.(itemStack, id);
+  }
+
+  /**
+   * Throws if the identifier data of an item does not match the schema of this database.
+   *
+   * @param data - The data to validate.
+   * @throws SchemaValidationError if the data does not match the schema.
+   */
+  private assertValidData(data: IdentifierData) {
+    if (!this.schema) return;
+
+    const issues = validateItemData(this.schema, data);
+    if (issues.length > 0)
+      throw new SchemaValidationError(this.typeId, data.id, issues);
+  }
+
+  /**
+   * Lists a page of entries, ordered by their item id.
+   * The cursor is the last id of the previous page, so it stays valid
+   * while items are added and removed between pages.
+   *
+   * @param options - The cursor, page size and order to list with.
+   * @returns The entries in the page, and the cursor of the next page.
+   * @example const { entries, nextCursor } = db.listItems({ pageSize: 45 });
+   */
+  listItems(
+    options: ItemDatabaseListOptions = {}
+  ): ItemDatabasePage<IdentifierData> {
+    this.assertReady();
+    const pageSize = options.pageSize ?? 45;
+    const descending = options.order === "desc";
+    assert(pageSize > 0, `Page size must be greater than 0!`);
+
+    // Find where the page starts, right after the cursor.
+    let index: number;
+    if (options.cursor === undefined) {
+      index = descending ? this.sortedItemIds.length - 1 : 0;
+    } else {
+      const cursorIndex = binarySearch(this.sortedItemIds, options.cursor);
+      if (descending) index = cursorIndex - 1;
+      else
+        index =
+          this.sortedItemIds[cursorIndex] === options.cursor
+            ? cursorIndex + 1
+            : cursorIndex;
+    }
+
+    const entries: ItemDatabaseEntry<IdentifierData>[] = [];
+    const step = descending ? -1 : 1;
+    for (; index >= 0 && index < this.sortedItemIds.length; index += step) {
+      if (entries.length >= pageSize) break;
+
+      const id = this.sortedItemIds[index] as string;
+      const item = this.getItem(id);
+      const data = this.getItemData(id);
+      if (!item || !data) continue;
+
+      entries.push({ id, item, data });
+    }
+
+    // There is only a next page, if there are ids left after this one.
+    const hasNextPage = index >= 0 && index < this.sortedItemIds.length;
+    return {
+      entries,
+      nextCursor: hasNextPage ? entries[entries.length - 1]?.id : undefined,
+    };
+  }
+
+  /**
+   * Gets the item identifier in the database, falling back to the "nameTag" encoding
+   * for items that have not been migrated yet.
+   *
+   * @param itemStack - The itemStack to fetch.
+   * @param entity - The entity holding the itemStack.
+   * @param slot - The slot the itemStack is in.
+   * @returns The identifier of the itemStack, or undefined if not set correctly.
+   */
+  private getItemId(
+    itemStack: ItemStack,
+    entity: Entity,
+    slot: number
+  ): IdentifierData["id"] | undefined {
+    return (
+      this.identity.decode(itemStack, entity, slot) ??
+      this.legacyIdentity?.decode(itemStack)
+    );
+  }
+
+  /**
+   * Removes the encoded id from a stored itemStack, whichever encoding it uses.
+   * The "nameTag" encoding is only stripped from items still decoded through it,
+   * so the names of every other item are kept exactly as they were.
+   *
+   * @param itemStack - The itemStack as it is stored.
+   * @param entity - The entity holding the itemStack.
+   * @param slot - The slot the itemStack is in.
+   * @returns A copy of the itemStack, as it was given to the database.
+   */
+  private stripIdentity(
+    itemStack: ItemStack,
+    entity: Entity,
+    slot: number
+  ): ItemStack {
+    if (
+      this.legacyIdentity &&
+      this.identity.decode(itemStack, entity, slot) === undefined &&
+      this.legacyIdentity.decode(itemStack) !== undefined
+    )
+      return this.legacyIdentity.strip(itemStack);
+
+    return this.identity.strip(itemStack);
+  }
+
+  /**
+   * Re-encodes an item still using the "nameTag" encoding with the current encoding.
+   * If that fails, the item keeps its old encoding, which can still be read.
+   *
+   * @param container - The container holding the item.
+   * @param entity - The entity holding the item.
+   * @param slot - The slot the item is in.
+   * @param itemStack - The item, stripped of its old encoding.
+   * @param id - The ID of the item.
+   */
+  private migrateLegacyItem(
+    container: Container,
+    entity: Entity,
+    slot: number,
+    itemStack: ItemStack,
+    id: IdentifierData["id"]
+  ) {
+    try {
+      container.setItem(
+        slot,
+        this.identity.encode(itemStack, id, entity, slot)
+      );
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Failed to migrate Item (${id}) of "${this.typeId}" off the nameTag encoding: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Queues a write to run once every previously queued write has finished.
+   *
+   * @param write - The write to run.
+   * @returns A promise resolving with the result of the write.
+   */
+  private enqueueWrite<T>(write: () => T | Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(write);
+
+    // A failed write must not stop the writes queued after it.
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Gets the amount of free slots across all valid database entities.
+   *
+   * @returns The amount of items that can be stored without spawning entities.
+   */
+  private getFreeSlotCount(): number {
+    let freeSlots = 0;
+    for (const [entityId, itemIds] of this.itemStorageMap) {
+      const entity = this.databaseEntities.get(entityId);
+      if (!entity || !entity.isValid) continue;
+
+      freeSlots += Math.max(0, this.config.inventorySize - itemIds.length);
+    }
+
+    return freeSlots;
+  }
+
+  /**
+   * Spawns a new entity for this database, and registers it.
+   *
+   * @returns The spawned entity, with an empty container.
+   * @throws if the location never loaded, the entity went invalid, or has no valid container.
+   */
+  private async spawnDatabaseEntity(): Promise<Entity> {
+    // Make sure the location is kept loaded, and wait until it is.
+    TickingAreaManager.acquire(
+      this.typeId,
+      this.config.dimension,
+      this.config.location
+    );
+    const isLoaded = await TickingAreaManager.waitUntilLoaded(
+      this.config.dimension,
+      this.config.location
+    );
+    assert(
+      isLoaded,
+      `Location of "${this.typeId}" did not load, can't spawn an entity!`
+    );
+
+    // Spawn entity and wait to ensure it is loaded.
+    const entity = world
+      .getDimension(this.config.dimension)
+      .spawnEntity<string>(this.config.entityTypeId, this.config.location);
+    await system.waitTicks(10);
+
+    // Could happen if there is some type of entity clearing.
+    assert(
+      entity.isValid,
+      `Entity (${entity.id}) of "${this.typeId}" went invalid after spawning!`
+    );
+
+    // Register this entity as in use for this database.
+    entity.setDynamicProperty("databaseTypeId", this.typeId);
+
+    // Check if inventory is valid.
+    const inventory = entity.getComponent("inventory");
+    if (!inventory || !inventory.isValid)
+      throw new Error(
+        `Could not add ItemStack, Entity does not have a valid Inventory Component!`
+      );
+
+    const inventoryContainer = inventory.container;
+    if (!inventoryContainer || !inventoryContainer.isValid)
+      throw new Error(
+        `Could not add ItemStack, Entity's container is not valid!`
+      );
+
+    assert(
+      inventoryContainer.firstEmptySlot() == 0,
+      `Entity (${entity.id}) of "${this.typeId}" has an empty slot that is not the first slot!`
+    );
+    this.validateInventorySize(inventoryContainer);
+
+    this.databaseEntities.set(entity.id, entity);
+    this.itemStorageMap.set(entity.id, []);
+    this.trackEntity(entity.id);
+    return entity;
+  }
+
+  /**
+   * Stores an item in the first empty slot of an entity.
+   *
+   * @param entity - The entity to store the item in.
+   * @param itemStack - The itemStack, as it was given to the database.
+   * @param data - The data to associate with this item.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   * @returns Where the item was stored, or undefined if the entity can't hold it.
+   * @throws if the entity is somehow full, despite the item storage map.
+   */
+  private storeInEntity(
+    entity: Entity,
+    itemStack: ItemStack,
+    data: IdentifierData,
+    expiresAt?: number
+  ): ItemDatabaseItemLocation | undefined {
+    // Check if the entity is full.
+    const currentItemIds = this.getEntityItemIds(entity);
+    if (currentItemIds.length >= this.config.inventorySize) return;
+    if (!entity.isValid) return;
+
+    // Get the inventory and check if it is valid.
+    const inventory = entity.getComponent("inventory");
+    if (!inventory || !inventory.isValid) return;
+    const inventoryContainer = inventory.container;
+    if (!inventoryContainer || !inventoryContainer.isValid) return;
+
+    // Get the first empty slot.
+    const firstEmptySlot = inventoryContainer.firstEmptySlot();
+    assert(
+      firstEmptySlot !== undefined,
+      `Entity (${entity.id}) of "${this.typeId}" is somehow full!`
+    );
+
+    // Set the item to the first empty slot, with its id encoded.
+    inventoryContainer.setItem(
+      firstEmptySlot,
+      this.identity.encode(itemStack, data.id, entity, firstEmptySlot)
+    );
+    this.writeItemRecord(entity, data, expiresAt);
+
+    // Update the item storage map.
+    currentItemIds.push(data.id);
+    this.itemStorageMap.set(entity.id, currentItemIds);
+
+    return { entityId: entity.id, slot: firstEmptySlot };
+  }
+
+  /**
+   * Stores an item on the fullest entity already in use that has room for it,
+   * so emptier entities are left to drain, and can be compacted away.
+   *
+   * @param itemStack - The itemStack, as it was given to the database.
+   * @param data - The data to associate with this item.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   * @returns Where the item was stored, or undefined if all entities are full.
+   * @throws if the identity encoder can't encode the item.
+   */
+  private storeInExistingEntity(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    expiresAt?: number
+  ): ItemDatabaseItemLocation | undefined {
+    // Every entity would fail the same way, so this throws instead of trying each.
+    this.assertEncodable(itemStack, data.id);
+
+    const entityIds = [...this.itemStorageMap.keys()].sort(
+      (a, b) =>
+        this.getEntityItemIds({ id: b }).length -
+        this.getEntityItemIds({ id: a }).length
+    );
+    for (const entityId of entityIds) {
+      try {
+        const entity = this.databaseEntities.get(entityId);
+        if (!entity) continue;
+
+        const location = this.storeInEntity(entity, itemStack, data, expiresAt);
+        if (location) return location;
+      } catch (error) {
+        console.error(`Failed to add item to database: ${error}`);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Adds an item to this itemStack database.
+   *
+   * @param itemStack - The itemStack to add to the database.
+   * @param data - The data to associate with this item.
+   * @param options - Options to store the item with, such as when it expires.
+   * @returns True if the item was successfully added, false otherwise.
+   * @throws if entities are not yet registered.
+   * @throws SchemaValidationError if the data does not match the schema of this database.
+   * @throws QuotaExceededError if storing the item would exceed a limit of this database.
+   * @throws if the identity encoder can't encode the item.
+   */
+  async setItem(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    options: ItemDatabaseSetOptions = {}
+  ): Promise<boolean> {
+    this.assertValidData(data);
+    this.assertEncodable(itemStack, data.id);
+    const expiresAt = this.resolveExpiresAt(options);
+
+    return this.enqueueWrite(async () => {
+      this.assertWithinLimits(data);
+      const previousData = this.cachedData.get(data.id);
+      const stored = await this.storeItem(itemStack, data, expiresAt);
+      if (stored) this.emitItemSet(data, previousData);
+
+      // The replaced item is gone either way, so the replicas follow.
+      await this.writeReplicas((replica) =>
+        stored
+          ? replica.setItem(
+              this.cachedItems.get(data.id) ?? itemStack,
+              data,
+              expiresAt !== undefined ? { expiresAt } : {}
+            )
+          : replica.removeItem(data.id).then(() => true)
+      );
+      return stored;
+    });
+  }
+
+  /**
+   * Stores an item, replacing the item with the same id, and spawning a new entity if all are full.
+   * Must run inside the write queue.
+   *
+   * @param itemStack - The itemStack to store.
+   * @param data - The data to associate with this item.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   * @returns True if the item was stored, false otherwise.
+   * @throws if the identity encoder can't encode the item, before anything is written.
+   */
+  private async storeItem(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    expiresAt?: number
+  ): Promise<boolean> {
+    this.assertEncodable(itemStack, data.id);
+
+    // Check if item is already in database, if so remove it.
+    if (this.itemLocations.has(data.id)) this.deleteItem(data.id);
+    this.discardInvalidRecord(data.id);
+
+    // Keep a copy, so later changes to the given itemStack don't leak into the cache.
+    itemStack = itemStack.clone();
+
+    // Find a entity to put the item on.
+    let addedLocation = this.storeInExistingEntity(itemStack, data, expiresAt);
+
+    // All current entities in use are full, must make a new entity to store this item.
+    if (!addedLocation) {
+      try {
+        const entity = await this.spawnDatabaseEntity();
+        addedLocation = this.storeInEntity(entity, itemStack, data, expiresAt);
+      } catch (error) {
+        console.error(`Failed to add item to database: ${error}`);
+      }
+    }
+
+    // Add item to cached items if it was added.
+    if (!addedLocation) return false;
+    this.cacheItem(itemStack, cloneItemData(data), addedLocation, expiresAt);
+    return true;
+  }
+
+  /**
+   * Adds many items to this database, spread across ticks so it never trips the watchdog.
+   * Only as many new entities as the batch needs are spawned, before any item is stored.
+   *
+   * @param entries - The itemStacks to add, and the data to associate with them.
+   * @param onProgress - Called after each item with the amount of items processed.
+   * @returns The result of adding each item, in the same order as the entries.
+   */
+  async setItems(
+    entries: ItemDatabaseBatchEntry<IdentifierData>[],
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Promise<ItemDatabaseBatchResult[]> {
+    return this.enqueueWrite(() => this.storeItems(entries, onProgress));
+  }
+
+  /**
+   * Stores many items, and copies them to the replicas.
+   * Must only be called from within the write queue.
+   *
+   * @param entries - The itemStacks to add, and the data to associate with them.
+   * @param onProgress - Called after each item with the amount of items processed.
+   * @returns The result of adding each item, in the same order as the entries.
+   */
+  private async storeItems(
+    entries: ItemDatabaseBatchEntry<IdentifierData>[],
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Promise<ItemDatabaseBatchResult[]> {
+    // Items being replaced free up their slot before being stored again.
+    const replacedIds = new Set(
+      entries
+        .map(({ data }) => data.id)
+        .filter((id) => this.itemLocations.has(id))
+    );
+    await this.spawnEntitiesFor(entries.length - replacedIds.size);
+
+    const results: ItemDatabaseBatchResult[] = [];
+    await runJobAsync(this.setItemsJob(entries, results, onProgress));
+
+    if (this.replicas.length > 0) {
+      // Copy the stored items to the replicas, and drop the replaced items that failed.
+      const storedEntries: ItemDatabaseBatchEntry<IdentifierData>[] = [];
+      const droppedIds: string[] = [];
+      entries.forEach(({ itemStack, data }, index) => {
+        if (!results[index]?.success) {
+          if (!this.itemLocations.has(data.id)) droppedIds.push(data.id);
+          return;
+        }
+
+        const expiresAt = this.expirations.get(data.id);
+        storedEntries.push({
+          itemStack,
+          data,
+          options: expiresAt !== undefined ? { expiresAt } : {},
+        });
+      });
+      await this.writeReplicas(async (replica) => {
+        const replicaResults = await replica.setItems(storedEntries);
+        await replica.removeItems(droppedIds);
+        return replicaResults.every(({ success }) => success);
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Job that stores each item of a batch, yielding after every item.
+   *
+   * @param entries - The itemStacks to add, and the data to associate with them.
+   * @param results - The array to push the result of each item to.
+   * @param onProgress - Called after each item with the amount of items processed.
+   */
+  private *setItemsJob(
+    entries: ItemDatabaseBatchEntry<IdentifierData>[],
+    results: ItemDatabaseBatchResult[],
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Generator<void, void, void> {
+    for (const { itemStack, data, options } of entries) {
+      try {
+        this.assertValidData(data);
+        const expiresAt = this.resolveExpiresAt(options ?? {});
+        this.assertWithinLimits(data);
+        const previousData = this.cachedData.get(data.id);
+        this.discardInvalidRecord(data.id);
+        this.storeInFreeSlot(itemStack, data, expiresAt);
+        this.emitItemSet(data, previousData);
+        results.push({ id: data.id, success: true });
+      } catch (error) {
+        results.push({ id: data.id, success: false, error: `${error}` });
+      }
+
+      onProgress?.(results.length, entries.length);
+      yield;
+    }
+  }
+
+  /**
+   * Spawns as many entities as are needed to store some more items, up front,
+   * as spawning takes ticks. Items beyond `maxEntities` fail with a `QuotaExceededError` instead.
+   *
+   * @param itemCount - The amount of items that need a free slot.
+   */
+  private async spawnEntitiesFor(itemCount: number) {
+    const missingSlots = itemCount - this.getFreeSlotCount();
+    const entitiesToSpawn = Math.min(
+      Math.ceil(Math.max(0, missingSlots) / this.config.inventorySize),
+      this.getRemainingCapacity().entities
+    );
+    for (let i = 0; i < entitiesToSpawn; i++) {
+      try {
+        await this.spawnDatabaseEntity();
+      } catch (error) {
+        console.error(`Failed to spawn entity for batch: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Stores an item in a free slot of an entity already in use, replacing the item with the same id.
+   *
+   * @param itemStack - The itemStack to store.
+   * @param data - The data to associate with this item.
+   * @param expiresAt - When the item expires, undefined if it never expires.
+   * @throws if the identity encoder can't encode the item, before anything is written.
+   * @throws if no entity has a free slot.
+   */
+  private storeInFreeSlot(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    expiresAt?: number
+  ) {
+    this.assertEncodable(itemStack, data.id);
+    if (this.itemLocations.has(data.id)) this.deleteItem(data.id);
+
+    const location = this.storeInExistingEntity(itemStack, data, expiresAt);
+    if (!location)
+      throw new Error(`No entity of "${this.typeId}" has a free slot!`);
+
+    this.cacheItem(itemStack.clone(), cloneItemData(data), location, expiresAt);
+  }
+
+  /**
+   * Applies several writes at once, either all of them or none. The callback queues the writes,
+   * which are applied within a single tick once it has finished, so readers never see part of
+   * the transaction. If a write fails, the writes already applied are rolled back.
+   * Events are only emitted once every write was applied.
+   *
+   * The callback runs inside the write queue, so it must not wait on other writes of this database.
+   *
+   * @param callback - Queues the writes of the transaction.
+   * @returns What the callback returned.
+   * @throws if the callback throws, or a write fails, in which case nothing is written.
+   *
+   * @example
+   * await db.transaction((tx) => {
+   *   tx.remove(offeredId);
+   *   tx.remove(requestedId);
+   *   tx.set(tradedItem, { id: tradedId });
+   * });
+   */
+  async transaction<Result>(
+    callback: (
+      transaction: ItemDatabaseTransaction<IdentifierData>
+    ) => Result | Promise<Result>
+  ): Promise<Result> {
+    return this.enqueueWrite(async () => {
+      const transaction = new ItemDatabaseTransaction<IdentifierData>();
+      let result: Result;
+      try {
+        result = await callback(transaction);
+      } finally {
+        transaction.close();
+      }
+
+      const { operations } = transaction;
+      const expirations = await this.commitTransaction(operations);
+
+      // Replay the transaction on the replicas, with the same expiry times.
+      await this.writeReplicas((replica) =>
+        replica
+          .transaction((replicaTransaction) => {
+            operations.forEach((operation, index) => {
+              if (operation.type === "remove")
+                return replicaTransaction.remove(operation.id);
+
+              const expiresAt = expirations[index];
+              replicaTransaction.set(
+                operation.itemStack,
+                operation.data,
+                expiresAt !== undefined ? { expiresAt } : {}
+              );
+            });
+          })
+          .then(() => true)
+      );
+      return result;
+    });
+  }
+
+  /**
+   * Applies the writes of a transaction within a single tick, rolling back the writes
+   * already applied if one fails. Must run inside the write queue.
+   *
+   * @param operations - The writes of the transaction.
+   * @returns When each stored item expires, by the index of its write.
+   * @throws if a write fails, after rolling back.
+   */
+  private async commitTransaction(
+    operations: ItemDatabaseTransactionOperation<IdentifierData>[]
+  ): Promise<(number | undefined)[]> {
+    // Validate every item before anything is written.
+    const expirations = operations.map((operation) => {
+      if (operation.type === "remove") return undefined;
+
+      this.assertValidData(operation.data);
+      return this.resolveExpiresAt(operation.options);
+    });
+
+    const newIds = new Set<string>();
+    for (const operation of operations) {
+      if (
+        operation.type === "set" &&
+        !this.itemLocations.has(operation.data.id)
+      )
+        newIds.add(operation.data.id);
+    }
+    await this.spawnEntitiesFor(newIds.size);
+
+    // No awaits from here on, so the writes are applied within this tick.
+    const rollbacks: (() => void)[] = [];
+    const emits: (() => void)[] = [];
+    try {
+      operations.forEach((operation, index) => {
+        const id = operation.type === "set" ? operation.data.id : operation.id;
+        const previousEntry = this.getStoredEntry(id);
+        if (operation.type === "remove" && !previousEntry) return;
+
+        // Added before writing, as a write can fail after it deleted the item it replaces.
+        rollbacks.push(() => this.restoreStoredEntry(id, previousEntry));
+        if (operation.type === "set") {
+          this.assertWithinLimits(operation.data);
+          this.storeInFreeSlot(
+            operation.itemStack,
+            operation.data,
+            expirations[index]
+          );
+          emits.push(() =>
+            this.emitItemSet(operation.data, previousEntry?.data)
+          );
+        } else if (previousEntry) {
+          this.deleteItem(id);
+          emits.push(() =>
+            this.events.emit("itemRemoved", {
+              id,
+              data: cloneItemData(previousEntry.data),
+            })
+          );
+        }
+      });
+    } catch (error) {
+      for (const rollback of rollbacks.reverse()) {
+        try {
+          rollback();
+        } catch (rollbackError) {
+          console.error(
+            `[ITEM_DATABASE] Failed to roll back a transaction of "${this.typeId}": ${rollbackError}`
+          );
+        }
+      }
+      throw error;
+    }
+
+    // Invalid records replaced by the transaction are only discarded once it is committed.
+    for (const operation of operations) {
+      if (operation.type === "set")
+        this.discardInvalidRecord(operation.data.id);
+    }
+    for (const emit of emits) emit();
+    if (operations.some((operation) => operation.type === "remove"))
+      this.autoCompact();
+
+    return expirations;
+  }
+
+  /**
+   * Gets an item as it is stored, to put it back if a transaction rolls back.
+   *
+   * @param id - The ID of the item.
+   * @returns The stored item, or undefined if it is not stored.
+   */
+  private getStoredEntry(
+    id: IdentifierData["id"]
+  ): StoredEntry<IdentifierData> | undefined {
+    const itemStack = this.cachedItems.get(id);
+    const data = this.cachedData.get(id);
+    if (!itemStack || !data || !this.itemLocations.has(id)) return undefined;
+
+    return {
+      itemStack,
+      data,
+      expiresAt: this.expirations.get(id),
+      reservation: this.reservations.get(id),
+    };
+  }
+
+  /**
+   * Puts an item back the way it was stored, before a transaction changed it.
+   *
+   * @param id - The ID of the item.
+   * @param entry - The item as it was stored, or undefined if it was not stored.
+   * @throws if no entity has a free slot for the item.
+   */
+  private restoreStoredEntry(
+    id: IdentifierData["id"],
+    entry: StoredEntry<IdentifierData> | undefined
+  ) {
+    if (this.itemLocations.has(id)) this.deleteItem(id);
+    if (!entry) return;
+
+    const location = this.storeInExistingEntity(
+      entry.itemStack,
+      entry.data,
+      entry.expiresAt
+    );
+    assert(location, `Failed to restore Item (${id}) of "${this.typeId}"!`);
+    this.cacheItem(entry.itemStack, entry.data, location, entry.expiresAt);
+    if (entry.reservation) this.reservations.set(id, entry.reservation);
+  }
+
+  /**
+   * Gets an item with the specified ID from the database.
+   *
+   * @param id - The ID of the item to retrieve.
+   * @returns The itemStack that corresponds to the specified ID, or undefined if not found.
+   * @throws DatabaseNotReadyError if strict reads are enabled, and this database is not ready.
+   */
+  getItem(id: IdentifierData["id"]): ItemStack | undefined {
+    this.assertReady();
+    return (this.getHealthyCopy(id) ?? this).cloneStoredItem(id);
+  }
+
+  /**
+   * Clones a stored item, as it was given to the database.
+   *
+   * @param id - The ID of the item to clone.
+   * @returns The cloned itemStack, or undefined if not found.
+   */
+  private cloneStoredItem(id: IdentifierData["id"]): ItemStack | undefined {
+    // Clone this item to prevent modifying the original item.
+    return this.cachedItems.get(id)?.clone();
+  }
 
   /**
-   * The typeId that this database is linked to, and is how it keeps track of entities spawned in.
+   * Gets the data an item was stored with.
    *
-   * @example "auctionItems"
-   * @example "backpackItems"
+   * @param id - The ID of the item to retrieve the data of.
+   * @returns A copy of the data of the item, or undefined if not found.
+   * @throws DatabaseNotReadyError if strict reads are enabled, and this database is not ready.
    */
-  public typeId: string;
+  getItemData(id: IdentifierData["id"]): IdentifierData | undefined {
+    this.assertReady();
+    const data = (this.getHealthyCopy(id) ?? this).cachedData.get(id);
+    if (!data) return;
+
+    return cloneItemData(data);
+  }
 
   /**
-   * Returns a string representing a bounding box that the entities must be in,
-   * this is used for ticking areas and such that require running commands.
+   * Gets every entry inside this database.
    *
-   * @returns @example "-1 -1 -1 1 1 1"
+   * @returns The id, item and data of every item.
    */
-  static getEntityBoundingBox(): string {
-    return `${ENTITY_LOCATION.x - 1} ${ENTITY_LOCATION.y - 1} ${
-      ENTITY_LOCATION.z - 1
-    } ${ENTITY_LOCATION.x + 1} ${ENTITY_LOCATION.y + 1} ${
-      ENTITY_LOCATION.z + 1
-    }`;
+  getEntries(): ItemDatabaseEntry<IdentifierData>[] {
+    this.assertReady();
+    const entries: ItemDatabaseEntry<IdentifierData>[] = [];
+    for (const id of this.cachedItems.keys()) {
+      const item = this.getItem(id);
+      const data = this.getItemData(id);
+      if (!item || !data) continue;
+
+      entries.push({ id, item, data });
+    }
+
+    return entries;
   }
 
   /**
-   * Establishes an ItemDatabase instance into the world.
-   * @param typeId - Identifier for ItemDatabase Mapping.
+   * Finds entries in this database by their identifier data.
+   * Filters on indexed fields are resolved through their secondary index,
+   * other filters are checked against each remaining entry.
+   *
+   * @param query - The filters, sorting and limit to apply.
+   * @returns The entries matching the query.
+   * @example db.query({ where: { seller: { eq: "PlayerOne" } }, limit: 10 })
    */
-  constructor(typeId: string) {
-    this.typeId = typeId;
-    this.databaseEntities = new Map();
-    this.cachedItems = new Map();
-    this.itemStorageMap = new Map();
+  query(
+    query: ItemDatabaseQuery<IdentifierData> = {}
+  ): ItemDatabaseEntry<IdentifierData>[] {
+    this.assertReady();
+    const filters = Object.entries(query.where ?? {}) as [
+      string,
+      ItemDatabaseQueryFilter<unknown>
+    ][];
 
-    // Fetch any entities that were loaded before this database was initialized.
-    world.afterEvents.worldLoad.subscribe(() => {
-      try {
-        const alreadyLoadedEntities = world
-          .getDimension(ENTITY_DIMENSION)
-          .getEntities({
-            type: ENTITY_TYPEID,
-          });
+    // Narrow down the candidates using the indexed filters.
+    let candidateIds: Iterable<string> | undefined;
+    for (const [field, filter] of filters) {
+      const index = this.indexes.get(field);
+      if (!index) continue;
 
-        for (const entity of alreadyLoadedEntities) {
-          if (!this.isDatabaseEntity(entity)) continue;
-          if (this.databaseEntities.has(entity.id)) continue;
-          this.databaseEntities.set(entity.id, entity);
-          this.registerEntityItems(entity);
-        }
-      } catch (error) {
-        console.warn(
-          `[ITEM_DATABASE] Failed to fetch pre-loaded entities: ${error}`
-        );
-      }
-    });
+      const matchingIds = index.find(filter);
+      candidateIds = candidateIds
+        ? [...candidateIds].filter((id) => matchingIds.has(id))
+        : matchingIds;
+    }
 
-    // Fetch items when entities are loaded.
-    world.afterEvents.entityLoad.subscribe(({ entity }) => {
-      if (!this.isDatabaseEntity(entity)) return;
-      if (this.databaseEntities.has(entity.id)) return;
-      this.databaseEntities.set(entity.id, entity);
-      console.log(
-        `[ITEM_DATABASE] Loaded Entity (${entity.id}) of "${this.typeId}"!`
-      );
+    // Check every filter against the candidates.
+    let matchingData: IdentifierData[] = [];
+    for (const id of candidateIds ?? this.cachedData.keys()) {
+      const data = this.cachedData.get(id);
+      if (!data) continue;
+      if (
+        !filters.every(([field, filter]) =>
+          matchesQueryFilter(data[field], filter)
+        )
+      )
+        continue;
 
-      // Fetch items from this entity.
-      const itemCount = this.registerEntityItems(entity);
-      console.log(
-        `[ITEM_DATABASE] Fetched ${itemCount}x items from Entity (${entity.id}) of "${this.typeId}"!`
+      matchingData.push(data);
+    }
+
+    if (query.sortBy) {
+      const sortBy = query.sortBy;
+      const direction = query.order === "desc" ? -1 : 1;
+      matchingData.sort(
+        (a, b) => compareValues(a[sortBy], b[sortBy]) * direction
       );
-    });
+    }
+    if (query.limit !== undefined)
+      matchingData = matchingData.slice(0, query.limit);
 
-    world.afterEvents.entityRemove.subscribe(({ removedEntityId }) => {
-      // Check if the entity is one of our database entities
-      const isDatabaseEntity = this.databaseEntities.get(removedEntityId);
-      if (!isDatabaseEntity) return;
+    const entries: ItemDatabaseEntry<IdentifierData>[] = [];
+    for (const data of matchingData) {
+      const item = this.getItem(data.id);
+      if (!item) continue;
 
-      // Something caused this entity to be removed! Not good!
-      console.warn(
-        `Entity (${removedEntityId}) of "${this.typeId}" was removed!`
-      );
+      entries.push({ id: data.id, item, data: cloneItemData(data) });
+    }
 
-      // Remove this entity from the database entities, as we don't want to fetch broken entities.
-      this.databaseEntities.delete(removedEntityId);
-    });
+    return entries;
   }
 
   /**
-   * Checks if an entity is a database entity.
+   * Finds entries in this database by the properties of their itemStack, ordered by their item id.
    *
-   * @param entity - The entity to check.
-   * @returns true if the entity is a entity of this database, false otherwise.
+   * @param search - The filters, and limit, to apply.
+   * @returns The entries matching the search.
+   * @throws DatabaseNotReadyError if strict reads are enabled, and this database is not ready.
+   * @example db.searchItems({ enchantments: [{ type: "sharpness", level: { eq: 5 } }] })
    */
-  private isDatabaseEntity(entity: Entity): boolean {
-    if (!entity.isValid) return false;
-    if (entity.getDynamicProperty("databaseTypeId") != this.typeId)
-      return false;
+  searchItems(
+    search: ItemDatabaseItemSearch = {}
+  ): ItemDatabaseEntry<IdentifierData>[] {
+    this.assertReady();
+    const entries: ItemDatabaseEntry<IdentifierData>[] = [];
+    for (const id of this.sortedItemIds) {
+      if (search.limit !== undefined && entries.length >= search.limit) break;
 
-    // Valid Entity used for this database
-    return true;
+      const projection = this.getItemProjection(id);
+      if (!projection || !matchesItemSearch(projection, search)) continue;
+
+      const item = this.getItem(id);
+      const data = this.getItemData(id);
+      if (!item || !data) continue;
+
+      entries.push({ id, item, data });
+    }
+
+    return entries;
   }
 
   /**
-   * Registers all items inside this entity.
+   * Gets the properties of an item that `searchItems` filters by,
+   * from the cached projections if they are enabled.
    *
-   * @param entity - The entity to register items from.
-   * @returns number of items registered.
+   * @param id - The ID of the item.
+   * @returns The searchable properties of the item, or undefined if not found.
    */
-  private registerEntityItems(entity: Entity): number {
-    if (!entity.isValid) return 0;
-
-    const inventory = entity.getComponent("inventory");
-    if (!inventory || !inventory.isValid) return 0;
-    const inventoryContainer = inventory.container;
-    if (!inventoryContainer || !inventoryContainer.isValid) return 0;
+  private getItemProjection(
+    id: IdentifierData["id"]
+  ): ItemDatabaseItemProjection | undefined {
+    const cachedProjection = this.projections?.get(id);
+    if (cachedProjection) return cachedProjection;
 
-    const entitiesItemIds = this.getEntityItemIds(entity);
-    assert(
-      entitiesItemIds.length == 0,
-      `Entity (${entity.id}) of "${this.typeId}" already has items registered!`
-    );
+    const itemStack = this.cachedItems.get(id);
+    if (!itemStack) return undefined;
 
-    let itemCount = 0;
-    for (let i = 0; i < inventory.inventorySize; i++) {
-      const itemStack = inventoryContainer.getItem(i);
-      if (!itemStack) continue;
+    const projection = projectItemStack(itemStack);
+    this.projections?.set(id, projection);
+    return projection;
+  }
 
-      const itemId = this.getItemId(itemStack);
-      if (!itemId) {
-        console.warn(
-          `Item (${itemStack.typeId}) of "${this.typeId}" lost its ID!`
-        );
-        continue;
-      }
+  /**
+   * Removes an item from the database.
+   *
+   * @param id - The ID of the item to remove.
+   * @returns True if the item was successfully removed, false otherwise,
+   * which includes when a replica failed to remove its copy, in which case the item is kept.
+   */
+  async removeItem(id: IdentifierData["id"]): Promise<boolean> {
+    return this.enqueueWrite(async () => {
+      const failedIds = await this.removeFromReplicas([id]);
+      if (failedIds.size > 0) return false;
 
-      // Register this item to the cached items.
-      this.cachedItems.set(itemId, itemStack);
-      entitiesItemIds.push(itemId);
-      itemCount++;
-    }
+      return this.removeEntry(id);
+    });
+  }
 
-    // Update the item storage map.
-    this.itemStorageMap.set(entity.id, entitiesItemIds);
+  /**
+   * Removes many items from this database, spread across ticks so it never trips the watchdog.
+   *
+   * @param ids - The IDs of the items to remove.
+   * @param onProgress - Called after each item with the amount of items processed.
+   * @returns The result of removing each item, in the same order as the ids.
+   */
+  async removeItems(
+    ids: IdentifierData["id"][],
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Promise<ItemDatabaseBatchResult[]> {
+    return this.enqueueWrite(async () => {
+      const failedIds = await this.removeFromReplicas(ids);
+      const results: ItemDatabaseBatchResult[] = [];
+      await runJobAsync(
+        this.removeItemsJob(ids, failedIds, results, onProgress)
+      );
 
-    return itemCount;
+      return results;
+    });
   }
 
   /**
-   * Clears all data stored in this database.
+   * Job that removes each item of a batch, yielding after every item.
+   *
+   * @param ids - The IDs of the items to remove.
+   * @param failedIds - The IDs of the items a replica failed to remove, which are kept.
+   * @param results - The array to push the result of each item to.
+   * @param onProgress - Called after each item with the amount of items processed.
    */
-  clear() {
-    // Try catch as, we should still wipe catch even if this errors.
-    try {
-      for (const entity of this.databaseEntities.values()) {
-        if (!entity.isValid) continue;
-        entity.remove();
+  private *removeItemsJob(
+    ids: IdentifierData["id"][],
+    failedIds: Set<string>,
+    results: ItemDatabaseBatchResult[],
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Generator<void, void, void> {
+    for (const id of ids) {
+      try {
+        if (failedIds.has(id))
+          throw new Error(`Failed to remove a replica copy of Item (${id})!`);
+
+        results.push({ id, success: this.removeEntry(id) });
+      } catch (error) {
+        results.push({ id, success: false, error: `${error}` });
       }
-    } catch (error) {
-      console.warn(`Failed to clear database: ${error}`);
+
+      onProgress?.(results.length, ids.length);
+      yield;
     }
+  }
 
-    this.databaseEntities.clear();
-    this.cachedItems.clear();
-    this.itemStorageMap.clear();
+  /**
+   * Removes an item from the database and hands it out, exactly once, even when
+   * it is taken by several players in the same tick. Use it instead of `getItem`
+   * followed by `removeItem`, which can hand the same item out twice.
+   *
+   * @param id - The ID of the item to take.
+   * @returns The taken itemStack, or undefined if it is not stored, or is reserved.
+   * @example
+   * const item = await db.takeItem(listingId);
+   * if (item) player.getComponent("inventory")?.container.addItem(item);
+   */
+  async takeItem(id: IdentifierData["id"]): Promise<ItemStack | undefined> {
+    return this.enqueueWrite(async () =>
+      this.getReservation(id) ? undefined : this.takeEntry(id)
+    );
   }
 
   /**
-   * Gets all item ids that are stored in an entity.
+   * Reserves an item, so it can't be taken or reserved by anyone else until the reservation
+   * is committed with `commit`, released with `release`, or times out. Meant for multi-step UIs,
+   * that only take the item once the player confirms. Any other write to the item drops its reservation.
    *
-   * @param entity - The entity to get the item ids from.
-   * @returns The item ids that are stored in the entity.
+   * @param id - The ID of the item to reserve.
+   * @param timeout - How long the item stays reserved, in milliseconds.
+   * @returns The reservation, or undefined if the item is not stored, or is already reserved.
    */
-  getEntityItemIds(entity: { id: string }): string[] {
-    if (!this.databaseEntities.has(entity.id)) return [];
-    return this.itemStorageMap.get(entity.id) ?? [];
+  async reserve(
+    id: IdentifierData["id"],
+    timeout: number = RESERVATION_TIMEOUT_MS
+  ): Promise<ItemDatabaseReservation<IdentifierData> | undefined> {
+    return this.enqueueWrite(() => {
+      if (this.getReservation(id) || !this.itemLocations.has(id)) return;
+
+      const copy = this.getHealthyCopy(id) ?? this;
+      const item = copy.cloneStoredItem(id);
+      const data = copy.cachedData.get(id);
+      if (!item || !data) return;
+
+      const reservation: ItemReservation = {
+        token: generateUniqueId(),
+        expiresAt: Date.now() + timeout,
+      };
+      this.reservations.set(id, reservation);
+      return { ...reservation, id, item, data: cloneItemData(data) };
+    });
   }
 
   /**
-   * Gets all items inside this database.
-   * @returns itemStacks that are valid.
+   * Takes a reserved item, the same way `takeItem` does.
+   *
+   * @param token - The token of the reservation.
+   * @returns The taken itemStack, or undefined if the reservation was released, timed out, or its item is gone.
    */
-  getAllItems(): ItemStack[] {
-    return Array.from(this.cachedItems.values());
+  async commit(token: string): Promise<ItemStack | undefined> {
+    return this.enqueueWrite(async () => {
+      const id = this.findReservedId(token);
+      if (id === undefined) return undefined;
+
+      this.reservations.delete(id);
+      return this.takeEntry(id);
+    });
   }
 
   /**
-   * Fetches all item ids for all items
+   * Releases a reserved item, so it can be taken or reserved again.
    *
-   * @returns
+   * @param token - The token of the reservation.
+   * @returns True if the reservation was released, false if it was not found, or timed out.
    */
-  getAllItemIds(): string[] {
-    return Array.from(this.cachedItems.keys());
+  release(token: string): boolean {
+    const id = this.findReservedId(token);
+    if (id === undefined) return false;
+
+    return this.reservations.delete(id);
   }
 
   /**
-   * Sets data onto this item inside the database.
-   * @param itemStack - ItemStack to apply data to.
-   * @param data - Other data to set onto this itemStack.
+   * Gets the reservation of an item, dropping it if it timed out.
    *
-   * @returns The modified itemStack.
+   * @param id - The ID of the item.
+   * @returns The reservation, or undefined if the item is not reserved.
    */
-  private setIdentifierData(
-    itemStack: ItemStack,
-    data: IdentifierData
-  ): ItemStack {
-    // Keep track of previous name tag, if it exists.
-    // This is used to prevent overwriting the name tag.
-    let previousNameTag = itemStack.nameTag ?? "";
-    if (previousNameTag.includes(ITEM_PREFIX)) previousNameTag = "";
+  private getReservation(
+    id: IdentifierData["id"]
+  ): ItemReservation | undefined {
+    const reservation = this.reservations.get(id);
+    if (!reservation || reservation.expiresAt > Date.now()) return reservation;
 
-    itemStack.nameTag = `${ITEM_PREFIX}${data.id}${ITEM_PREFIX}${previousNameTag}`;
-    return itemStack;
+    this.reservations.delete(id);
+    return undefined;
   }
 
   /**
-   * Gets the item identifier in the database
+   * Finds the item reserved with a token.
    *
-   * @param itemStack - The itemStack to fetch.
-   * @returns The identifier of the itemStack, or undefined if not set correctly.
+   * @param token - The token of the reservation.
+   * @returns The ID of the reserved item, or undefined if the reservation was not found, or timed out.
    */
-  private getItemId(itemStack: ItemStack): IdentifierData["id"] | undefined {
-    const itemName = itemStack.nameTag;
-    if (!itemName || !itemName.startsWith(ITEM_PREFIX)) return undefined;
+  private findReservedId(token: string): IdentifierData["id"] | undefined {
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.token === token)
+        return this.getReservation(id) ? id : undefined;
+    }
 
-    return itemName.split(ITEM_PREFIX)[1];
+    return undefined;
   }
 
   /**
-   * Adds an item to this itemStack database.
+   * Removes an item from the database, and hands it out.
    *
-   * @param itemStack - The itemStack to add to the database.
-   * @param data - The data to associate with this item.
-   * @returns True if the item was successfully added, false otherwise.
-   * @throws if entities are not yet registered.
+   * @param id - The ID of the item to take.
+   * @returns The taken itemStack, or undefined if it is not stored, or any copy of it could not be removed.
    */
-  async setItem(itemStack: ItemStack, data: IdentifierData): Promise<boolean> {
-    // Check if item is already in database, if so remove it.
-    if (this.getItem(data.id)) await this.removeItem(data.id);
+  private async takeEntry(
+    id: IdentifierData["id"]
+  ): Promise<ItemStack | undefined> {
+    // Items without a healthy copy here are not taken, as removing them could fail after the replicas did.
+    const item = this.hasHealthyCopy(id) ? this.cloneStoredItem(id) : undefined;
+    if (!item) return undefined;
 
-    // Update the itemStack with the identifier data.
-    itemStack = this.setIdentifierData(itemStack, data);
+    const failedIds = await this.removeFromReplicas([id]);
+    if (failedIds.size > 0 || !this.removeEntry(id)) return undefined;
 
-    // Find a entity to put the item on.
-    let addedItem = false;
-    for (const entityId of this.itemStorageMap.keys()) {
-      try {
-        // Check if the entity is full.
-        const currentItemIds = this.getEntityItemIds({ id: entityId });
-        if (currentItemIds.length >= ENTITY_INVENTORY_SIZE) continue;
+    return item;
+  }
 
-        // Get the entity and check if it is valid.
-        const entity = this.databaseEntities.get(entityId);
-        if (!entity || !entity.isValid) continue;
-
-        // Get the inventory and check if it is valid.
-        const inventory = entity.getComponent("inventory");
-        if (!inventory || !inventory.isValid) continue;
-        const inventoryContainer = inventory.container;
-        if (!inventoryContainer || !inventoryContainer.isValid) continue;
-
-        // Get the first empty slot.
-        const firstEmptySlot = inventoryContainer.firstEmptySlot();
-        assert(
-          firstEmptySlot !== undefined,
-          `Entity (${entityId}) of "${this.typeId}" is somehow full!`
-        );
+  /**
+   * Exports every entry of this database to a portable, versioned, JSON document.
+   *
+   * @returns The snapshot of this database.
+   * @throws DatabaseNotReadyError if strict reads are enabled, and this database is not ready.
+   */
+  exportSnapshot(): ItemDatabaseSnapshot<IdentifierData> {
+    return {
+      version: SNAPSHOT_VERSION,
+      typeId: this.typeId,
+      exportedAt: Date.now(),
+      entries: this.getEntries().map(({ id, item, data }) => {
+        const entry: ItemDatabaseSnapshotEntry<IdentifierData> = {
+          id,
+          data: encodeItemData(data),
+          item: serializeItemStack(item),
+        };
+        const expiresAt = this.expirations.get(id);
+        if (expiresAt !== undefined) entry.expiresAt = expiresAt;
 
-        // Set the item to the first empty slot.
-        inventoryContainer.setItem(firstEmptySlot, itemStack);
+        return entry;
+      }),
+    };
+  }
 
-        // Update the item storage map.
-        currentItemIds.push(data.id);
-        this.itemStorageMap.set(entityId, currentItemIds);
+  /**
+   * Imports a snapshot made by `exportSnapshot`, rebuilding each itemStack,
+   * and storing it the same way `setItems` does.
+   *
+   * @param snapshot - The snapshot to import.
+   * @param options - How to import the snapshot.
+   * @param onProgress - Called after each item with the amount of items processed.
+   * @returns The result of importing each entry, in the same order as the snapshot.
+   * @throws if the version of the snapshot is not supported.
+   */
+  async importSnapshot(
+    snapshot: ItemDatabaseSnapshot<IdentifierData>,
+    options: ItemDatabaseImportOptions = {},
+    onProgress?: ItemDatabaseBatchProgressCallback
+  ): Promise<ItemDatabaseBatchResult[]> {
+    if (snapshot.version < 1 || snapshot.version > SNAPSHOT_VERSION)
+      throw new Error(
+        `Snapshot version ${snapshot.version} is not supported, expected version ${SNAPSHOT_VERSION} or lower!`
+      );
 
-        // Mark as added.
-        addedItem = true;
-        break;
+    // Entries whose item can't be rebuilt fail, without stopping the others.
+    const results: ItemDatabaseBatchResult[] = [];
+    const entries: ItemDatabaseBatchEntry<IdentifierData>[] = [];
+    const entryIndexes: number[] = [];
+    snapshot.entries.forEach(({ id, data, item, expiresAt }, index) => {
+      try {
+        entries.push({
+          itemStack: deserializeItemStack(item),
+          data: decodeItemData({ ...data, id }),
+          options: expiresAt !== undefined ? { expiresAt } : {},
+        });
+        entryIndexes.push(index);
       } catch (error) {
-        console.error(`Failed to add item to database: ${error}`);
+        results[index] = { id, success: false, error: `${error}` };
       }
-    }
+    });
 
-    // All current entities in use are full, must make a new entity to store this item.
-    if (!addedItem) {
-      try {
-        // Spawn entity and wait to ensure it is loaded.
-        const entity = world
-          .getDimension(ENTITY_DIMENSION)
-          .spawnEntity<string>(ENTITY_TYPEID, ENTITY_LOCATION);
-        await system.waitTicks(10);
-
-        // Could happen if there is some type of entity clearing.
-        assert(
-          entity.isValid,
-          `Entity (${entity.id}) of "${this.typeId}" went invalid after spawning!`
-        );
+    // Cleared within the same write as the items are stored in, so no other
+    // write can land in between, and a failure to clear rejects the import.
+    const storedResults = await this.enqueueWrite(async () => {
+      if (options.mode === "replace") this.clear();
+      return this.storeItems(entries, onProgress);
+    });
+    storedResults.forEach((result, i) => {
+      const index = entryIndexes[i];
+      if (index !== undefined) results[index] = result;
+    });
 
-        // Register this entity as in use for this database.
-        entity.setDynamicProperty("databaseTypeId", this.typeId);
+    return results;
+  }
 
-        // Check if inventory is valid.
-        const inventory = entity.getComponent("inventory");
-        if (!inventory || !inventory.isValid)
-          throw new Error(
-            `Could not add ItemStack, Entity does not have a valid Inventory Component!`
-          );
+  /**
+   * Emits that an item was stored.
+   *
+   * @param data - The data the item was stored with.
+   * @param previousData - The data of the item it replaced, if any.
+   */
+  private emitItemSet(
+    data: IdentifierData,
+    previousData: IdentifierData | undefined
+  ) {
+    const item = this.cloneStoredItem(data.id);
+    if (!item) return;
 
-        const inventoryContainer = inventory.container;
-        if (!inventoryContainer || !inventoryContainer.isValid)
-          throw new Error(
-            `Could not add ItemStack, Entity's container is not valid!`
+    this.events.emit("itemSet", {
+      id: data.id,
+      item,
+      data: cloneItemData(data),
+      previousData,
+    });
+  }
+
+  /**
+   * Removes items from every replica of this database, before they are removed from this one.
+   * Items whose copy can't be removed from a replica must stay in this database too,
+   * as `syncReplicas` would otherwise bring them back from the copy left behind.
+   *
+   * @param ids - The IDs of the items to remove.
+   * @returns The IDs of the items that could not be removed from every replica.
+   */
+  private async removeFromReplicas(
+    ids: IdentifierData["id"][]
+  ): Promise<Set<string>> {
+    const failedIds = new Set<string>();
+    await Promise.all(
+      this.replicas.map(async (replica, index) => {
+        try {
+          await replica.enqueueWrite(() =>
+            runJobAsync(replica.removeCopiesJob(ids, failedIds))
           );
+        } catch (error) {
+          for (const id of ids) failedIds.add(id);
+          console.warn(
+            `[ITEM_DATABASE] Failed to remove items from replica ${
+              index + 1
+            } of "${this.typeId}": ${error}`
+          );
+        }
+      })
+    );
 
-        const firstEmptySlot = inventoryContainer.firstEmptySlot();
-        assert(
-          firstEmptySlot !== undefined,
-          `Entity (${entity.id}) of "${this.typeId}" is somehow full!`
-        );
-        assert(
-          firstEmptySlot == 0,
-          `Entity (${entity.id}) of "${this.typeId}" has an empty slot that is not the first slot!`
-        );
+    return failedIds;
+  }
 
-        inventoryContainer.setItem(firstEmptySlot, itemStack);
-        this.databaseEntities.set(entity.id, entity);
-        this.itemStorageMap.set(entity.id, [data.id]);
-        addedItem = true;
+  /**
+   * Job that removes the copies of items held by this replica, yielding after every item.
+   *
+   * @param ids - The IDs of the items to remove.
+   * @param failedIds - The set to add the IDs of the copies that could not be removed to.
+   */
+  private *removeCopiesJob(
+    ids: IdentifierData["id"][],
+    failedIds: Set<string>
+  ): Generator<void, void, void> {
+    for (const id of ids) {
+      try {
+        if (this.itemLocations.has(id) && !this.removeEntry(id))
+          failedIds.add(id);
       } catch (error) {
-        console.error(`Failed to add item to database: ${error}`);
+        failedIds.add(id);
+        console.warn(
+          `[ITEM_DATABASE] Failed to remove Item (${id}) of "${this.typeId}": ${error}`
+        );
       }
-    }
 
-    // Add item to cached items if it was added.
-    if (addedItem) this.cachedItems.set(data.id, itemStack);
-    return addedItem;
+      yield;
+    }
   }
 
   /**
-   * Gets an item with the specified ID from the database.
+   * Removes an item from the database, and emits that it was removed.
    *
-   * @param id - The ID of the item to retrieve.
-   * @returns The itemStack that corresponds to the specified ID, or undefined if not found.
+   * @param id - The ID of the item to remove.
+   * @returns True if the item was successfully removed, false otherwise.
    */
-  getItem(id: IdentifierData["id"]): ItemStack | undefined {
-    const item = this.cachedItems.get(id);
-    if (!item) return;
-    assert(
-      item.nameTag,
-      `Item (${item.typeId}) of "${this.typeId}" has no name tag!`
-    );
+  private removeEntry(id: IdentifierData["id"]): boolean {
+    const data = this.cachedData.get(id);
+    const removed = this.deleteItem(id);
+    if (data && !this.itemLocations.has(id))
+      this.events.emit("itemRemoved", { id, data: cloneItemData(data) });
+    if (removed) this.autoCompact();
 
-    // Clone this item to prevent modifying the original item.
-    const newItem = item.clone();
-
-    // Remove the identifier data from the items name tag.
-    newItem.nameTag = item.nameTag.split(ITEM_PREFIX)[2] ?? "";
-
-    // Return the new item.
-    return newItem;
+    return removed;
   }
 
   /**
-   * Removes an item from the database.
+   * Removes an item from the database, and the entity holding it.
    *
    * @param id - The ID of the item to remove.
    * @returns True if the item was successfully removed, false otherwise.
    */
-  async removeItem(id: IdentifierData["id"]): Promise<boolean> {
-    // Find the entity that contains the item.
-    const entityMapWithItem = [...this.itemStorageMap.entries()].find(
-      ([_, itemIds]) => itemIds.includes(id)
-    );
-    if (!entityMapWithItem) return false;
-    const [entityId, itemIds] = entityMapWithItem;
+  private deleteItem(id: IdentifierData["id"]): boolean {
+    // Find where the item is stored.
+    const location = this.itemLocations.get(id);
+    if (!location) return false;
+    const { entityId } = location;
+
+    // The reserved item is gone, so its reservation can't be committed anymore.
+    this.reservations.delete(id);
 
     // Remove item from cached items, and update the item storage map.
     const removeItemFromCache = () => {
-      this.cachedItems.delete(id);
+      this.uncacheItem(id);
+      const itemIds = this.itemStorageMap.get(entityId) ?? [];
       const newItemIds = itemIds.filter((itemId) => itemId !== id);
       this.itemStorageMap.set(entityId, newItemIds);
     };
@@ -419,6 +3539,9 @@ export class ItemDatabase<IdentifierData extends ItemDatabaseItemStackData> {
     const entity = this.databaseEntities.get(entityId);
     if (!entity || !entity.isValid) return removeItemFromCache(), false;
 
+    // Remove the record of this item from the entity.
+    entity.setDynamicProperty(this.getItemRecordKey(id), undefined);
+
     // Get the inventory and check if it is valid.
     const inventory = entity.getComponent("inventory");
     if (!inventory || !inventory.isValid) return removeItemFromCache(), false;
@@ -426,33 +3549,72 @@ export class ItemDatabase<IdentifierData extends ItemDatabaseItemStackData> {
     if (!inventoryContainer || !inventoryContainer.isValid)
       return removeItemFromCache(), false;
 
-    let foundItem = false;
-    for (let i = 0; i < inventory.inventorySize; i++) {
-      const itemStack = inventoryContainer.getItem(i);
-      if (!itemStack) continue;
-
-      try {
-        const itemId = this.getItemId(itemStack);
-        if (!itemId) continue;
-        if (itemId !== id) continue;
+    try {
+      // Only rescan the container if the item is not in its recorded slot.
+      const slot = this.isItemInSlot(
+        entity,
+        inventoryContainer,
+        location.slot,
+        id
+      )
+        ? location.slot
+        : this.findItemSlot(entity, inventoryContainer, id);
 
-        // Clear item at slot.
-        inventoryContainer.setItem(i, undefined);
-        foundItem = true;
-        break;
-      } catch (error) {
-        console.warn(`Failed to remove item: ${error}`);
-        continue;
+      // Warn if the item was not found.
+      if (slot === undefined)
+        console.warn(
+          `Item (${id}) of "${this.typeId}" was not found of entity (${entityId}), despite it being in the item storage map!`
+        );
+      else {
+        inventoryContainer.setItem(slot, undefined);
+        this.identity.release(entity, slot);
       }
+    } catch (error) {
+      console.warn(`Failed to remove item: ${error}`);
     }
 
-    // Warn if the item was not found.
-    if (!foundItem)
-      console.warn(
-        `Item (${id}) of "${this.typeId}" was not found of entity (${entityId}), despite it being in the item storage map!`
-      );
-
     // Remove item from cached items, and return success.
     return removeItemFromCache(), true;
   }
+
+  /**
+   * Checks if a slot of a container holds a specific item.
+   *
+   * @param entity - The entity the container belongs to.
+   * @param container - The container to check.
+   * @param slot - The slot to check.
+   * @param id - The ID of the item.
+   * @returns true if the item is in the slot, false otherwise.
+   */
+  private isItemInSlot(
+    entity: Entity,
+    container: Container,
+    slot: number,
+    id: IdentifierData["id"]
+  ): boolean {
+    const itemStack = container.getItem(slot);
+    if (!itemStack) return false;
+
+    return this.getItemId(itemStack, entity, slot) === id;
+  }
+
+  /**
+   * Scans a container for the slot holding a specific item.
+   *
+   * @param entity - The entity the container belongs to.
+   * @param container - The container to scan.
+   * @param id - The ID of the item.
+   * @returns The slot of the item, or undefined if not found.
+   */
+  private findItemSlot(
+    entity: Entity,
+    container: Container,
+    id: IdentifierData["id"]
+  ): number | undefined {
+    for (let i = 0; i < container.size; i++) {
+      if (this.isItemInSlot(entity, container, i, id)) return i;
+    }
+
+    return undefined;
+  }
 }
@@ -0,0 +1,71 @@
+import { ItemDatabaseItemStackData, ItemDatabaseSchema } from "../types";
+import { getMetadataValueType } from "./ItemDataCodec";
+
+/**
+ * Finds every problem the identifier data of an item has against a schema.
+ *
+ * @param schema - The schema to validate against.
+ * @param data - The data to validate.
+ * @returns The problems with the data, empty if it is valid.
+ */
+export function validateItemData<
+  IdentifierData extends ItemDatabaseItemStackData
+>(schema: ItemDatabaseSchema<IdentifierData>, data: IdentifierData): string[] {
+  const issues: string[] = [];
+  if (typeof data.id !== "string") issues.push(`"id" must be a string`);
+
+  for (const [field, declaration] of Object.entries(schema.fields ?? {})) {
+    if (!declaration) continue;
+
+    const value = data[field];
+    if (value === undefined) {
+      if (!declaration.optional) issues.push(`"${field}" is missing`);
+      continue;
+    }
+    if (getMetadataValueType(value) !== declaration.type)
+      issues.push(`"${field}" must be a ${declaration.type}`);
+  }
+
+  try {
+    issues.push(...(schema.validate?.(data) ?? []));
+  } catch (error) {
+    issues.push(`validate threw: ${error}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Upgrades the identifier data of an item to the current version of a schema,
+ * running every migration from the version it was written with.
+ *
+ * @param schema - The schema to migrate to.
+ * @param data - The data to migrate.
+ * @param version - The version the data was written with.
+ * @returns The migrated data.
+ * @throws if the data was written with a newer version, or a migration is missing, or throws itself.
+ */
+export function migrateItemData<
+  IdentifierData extends ItemDatabaseItemStackData
+>(
+  schema: ItemDatabaseSchema<IdentifierData>,
+  data: ItemDatabaseItemStackData,
+  version: number
+): IdentifierData {
+  // Data from a newer version is unknown, and rewriting it would stamp it with the older one.
+  if (version > schema.version)
+    throw new Error(
+      `Written with version ${version}, newer than the schema version ${schema.version}!`
+    );
+
+  let migratedData = data;
+  for (let from = version; from < schema.version; from++) {
+    const migration = schema.migrations?.[from];
+    if (!migration)
+      throw new Error(`No migration from version ${from} to ${from + 1}!`);
+
+    migratedData = { ...migration(migratedData), id: data.id };
+  }
+
+  return migratedData as IdentifierData;
+}
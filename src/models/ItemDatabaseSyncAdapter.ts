@@ -0,0 +1,428 @@
+import { system, world } from "@minecraft/server";
+import {
+  http,
+  HttpRequest,
+  HttpRequestMethod,
+  HttpResponse,
+} from "@minecraft/server-net";
+import {
+  MAX_DYNAMIC_PROPERTY_LENGTH,
+  SYNC_QUEUE_PROPERTY_PREFIX,
+} from "../config/item-database";
+import {
+  ItemDatabaseEventMap,
+  ItemDatabaseItemStackData,
+  ItemDatabaseSnapshot,
+  ItemDatabaseSyncChange,
+  ItemDatabaseSyncOptions,
+  ItemDatabaseSyncReconcileResult,
+} from "../types";
+import { ItemDatabaseEventCallback } from "./ItemDatabaseEvents";
+import { ItemDatabase } from "./ItemDatabaseModel";
+import { encodeItemData } from "./ItemDataCodec";
+import { serializeItemStack } from "./ItemStackSerializer";
+
+/**
+ * The head and tail of a durable sync queue.
+ */
+type SyncQueueState = {
+  /** The sequence number of the oldest change that was not sent yet. */
+  head: number;
+  /** The sequence number the next change is queued with. */
+  tail: number;
+};
+
+/**
+ * Pushes every change of an item database to an external HTTP backend,
+ * through `@minecraft/server-net`, which is only available on dedicated servers.
+ *
+ * Changes are kept in a durable queue in world dynamic properties until the
+ * backend accepts them, so they survive restarts. Failed requests are retried
+ * with an exponential backoff.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export class ItemDatabaseSyncAdapter<
+  IdentifierData extends ItemDatabaseItemStackData
+> {
+  /**
+   * The database that is synced.
+   */
+  readonly database: ItemDatabase<IdentifierData>;
+
+  /**
+   * The options this adapter was created with, with defaults filled in.
+   */
+  private options: Required<ItemDatabaseSyncOptions>;
+
+  /**
+   * The head and tail of the durable queue.
+   * Undefined until they could be read, once the world has loaded.
+   */
+  private queueState: SyncQueueState | undefined;
+
+  /**
+   * The amount of requests in a row that failed.
+   */
+  private failedAttempts: number;
+
+  /**
+   * The tick the next request may be sent on, while backing off.
+   */
+  private nextAttemptTick: number;
+
+  /**
+   * The request sending a batch of changes, if one is in flight.
+   */
+  private flushPromise: Promise<void> | undefined;
+
+  /**
+   * Ids of the items currently being changed by a reconcile,
+   * so those changes aren't sent back to the backend.
+   */
+  private remoteChangeIds: Set<string>;
+
+  /**
+   * The callbacks subscribed to the events of the database.
+   */
+  private callbacks: {
+    [Event in keyof ItemDatabaseEventMap<IdentifierData>]?: ItemDatabaseEventCallback<
+      ItemDatabaseEventMap<IdentifierData>[Event]
+    >;
+  };
+
+  /**
+   * The id of the interval sending queued changes.
+   */
+  private intervalId: number;
+
+  /**
+   * Starts syncing an item database to an external HTTP backend.
+   * @param database - The database to sync.
+   * @param options - Where and how to sync the database.
+   */
+  constructor(
+    database: ItemDatabase<IdentifierData>,
+    options: ItemDatabaseSyncOptions
+  ) {
+    this.database = database;
+    this.options = {
+      endpoint: options.endpoint.replace(/\/+$/, ""),
+      headers: options.headers ?? {},
+      batchSize: options.batchSize ?? 25,
+      flushIntervalTicks: options.flushIntervalTicks ?? 20,
+      retryBaseDelayTicks: options.retryBaseDelayTicks ?? 20,
+      retryMaxDelayTicks: options.retryMaxDelayTicks ?? 1200,
+      timeoutSeconds: options.timeoutSeconds ?? 10,
+    };
+    this.failedAttempts = 0;
+    this.nextAttemptTick = 0;
+    this.remoteChangeIds = new Set();
+
+    this.callbacks = {
+      itemSet: database.events.subscribe("itemSet", ({ id, item, data }) => {
+        if (this.remoteChangeIds.delete(id)) return;
+        const change: ItemDatabaseSyncChange<IdentifierData> = {
+          type: "set",
+          id,
+          data: encodeItemData(data),
+          item: serializeItemStack(item),
+          at: Date.now(),
+        };
+        const expiresAt = database.getItemExpiry(id);
+        if (expiresAt !== undefined) change.expiresAt = expiresAt;
+        this.enqueue(change);
+      }),
+      itemRemoved: database.events.subscribe("itemRemoved", ({ id }) => {
+        if (this.remoteChangeIds.delete(id)) return;
+        this.enqueue({ type: "remove", id, at: Date.now() });
+      }),
+      cleared: database.events.subscribe("cleared", () => {
+        this.enqueue({ type: "clear", at: Date.now() });
+      }),
+    };
+
+    this.intervalId = system.runInterval(
+      () => this.flushOnInterval(),
+      this.options.flushIntervalTicks
+    );
+  }
+
+  /**
+   * Stops syncing the database. Changes still queued are kept, and sent
+   * once a new adapter is created for the database.
+   */
+  stop() {
+    system.clearRun(this.intervalId);
+    if (this.callbacks.itemSet)
+      this.database.events.unsubscribe("itemSet", this.callbacks.itemSet);
+    if (this.callbacks.itemRemoved)
+      this.database.events.unsubscribe(
+        "itemRemoved",
+        this.callbacks.itemRemoved
+      );
+    if (this.callbacks.cleared)
+      this.database.events.unsubscribe("cleared", this.callbacks.cleared);
+    this.callbacks = {};
+  }
+
+  /**
+   * Gets the amount of changes that are queued, and not yet accepted by the backend.
+   *
+   * @returns The amount of queued changes.
+   */
+  getPendingCount(): number {
+    const { head, tail } = this.getQueueState();
+    return tail - head;
+  }
+
+  /**
+   * Gets the world dynamic property a queued change, or the queue state, is kept in.
+   *
+   * @param sequence - The sequence number of the change, or undefined for the queue state.
+   * @returns The key of the dynamic property.
+   */
+  private getQueueKey(sequence?: number): string {
+    const stateKey = `${SYNC_QUEUE_PROPERTY_PREFIX}${this.database.typeId}`;
+    return sequence === undefined ? stateKey : `${stateKey}:${sequence}`;
+  }
+
+  /**
+   * Gets the head and tail of the durable queue, reading them if needed.
+   *
+   * @returns The state of the queue.
+   */
+  private getQueueState(): SyncQueueState {
+    if (this.queueState) return this.queueState;
+
+    const rawState = world.getDynamicProperty(this.getQueueKey());
+    try {
+      this.queueState =
+        typeof rawState === "string"
+          ? (JSON.parse(rawState) as SyncQueueState)
+          : { head: 0, tail: 0 };
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Sync queue of "${this.database.typeId}" is corrupted: ${error}`
+      );
+      this.queueState = { head: 0, tail: 0 };
+    }
+
+    return this.queueState;
+  }
+
+  /**
+   * Persists the head and tail of the durable queue.
+   */
+  private writeQueueState() {
+    const state = this.getQueueState();
+    world.setDynamicProperty(
+      this.getQueueKey(),
+      state.head < state.tail ? JSON.stringify(state) : undefined
+    );
+  }
+
+  /**
+   * Adds a change to the end of the durable queue. Changes too long to be kept
+   * in a dynamic property are skipped, with a warning.
+   *
+   * @param change - The change to queue.
+   */
+  private enqueue(change: ItemDatabaseSyncChange<IdentifierData>) {
+    const rawChange = JSON.stringify(change);
+    if (rawChange.length > MAX_DYNAMIC_PROPERTY_LENGTH) {
+      console.warn(
+        `[ITEM_DATABASE] Skipping ${change.type} change${
+          "id" in change ? ` of Item (${change.id})` : ""
+        } of "${this.database.typeId}", as it is ${
+          rawChange.length
+        } characters long, over the limit of ${MAX_DYNAMIC_PROPERTY_LENGTH}!`
+      );
+      return;
+    }
+
+    const state = this.getQueueState();
+    world.setDynamicProperty(this.getQueueKey(state.tail), rawChange);
+    state.tail++;
+    this.writeQueueState();
+  }
+
+  /**
+   * Sends the oldest batch of queued changes to the backend, once any
+   * batch that is already in flight has finished.
+   *
+   * @returns A promise resolving once the batch is accepted.
+   * @throws if the backend could not be reached, or rejected the batch.
+   */
+  flush(): Promise<void> {
+    this.flushPromise ??= this.sendBatch().finally(
+      () => (this.flushPromise = undefined)
+    );
+    return this.flushPromise;
+  }
+
+  /**
+   * Sends queued changes on each interval, backing off after failures.
+   */
+  private flushOnInterval() {
+    if (this.flushPromise || system.currentTick < this.nextAttemptTick) return;
+    try {
+      if (this.getPendingCount() === 0) return;
+    } catch {
+      // The world has not loaded yet, so the queue can't be read.
+      return;
+    }
+
+    this.flush()
+      .then(() => (this.failedAttempts = 0))
+      .catch((error) => {
+        this.failedAttempts++;
+        const delay = Math.min(
+          this.options.retryMaxDelayTicks,
+          this.options.retryBaseDelayTicks * 2 ** (this.failedAttempts - 1)
+        );
+        this.nextAttemptTick = system.currentTick + delay;
+        console.warn(
+          `[ITEM_DATABASE] Failed to sync "${this.database.typeId}", retrying in ${delay} ticks: ${error}`
+        );
+      });
+  }
+
+  /**
+   * Sends the oldest batch of queued changes to the backend, removing them from the queue once accepted.
+   *
+   * @throws if the backend could not be reached, or rejected the batch.
+   */
+  private async sendBatch() {
+    const state = this.getQueueState();
+    const end = Math.min(state.tail, state.head + this.options.batchSize);
+    if (state.head >= end) return;
+
+    const changes: ItemDatabaseSyncChange<IdentifierData>[] = [];
+    for (let sequence = state.head; sequence < end; sequence++) {
+      const rawChange = world.getDynamicProperty(this.getQueueKey(sequence));
+      if (typeof rawChange !== "string") continue;
+
+      try {
+        changes.push(JSON.parse(rawChange));
+      } catch (error) {
+        console.warn(
+          `[ITEM_DATABASE] Dropping corrupted sync change ${sequence} of "${this.database.typeId}": ${error}`
+        );
+      }
+    }
+
+    if (changes.length > 0)
+      await this.request(
+        HttpRequestMethod.Post,
+        "/changes",
+        JSON.stringify({ typeId: this.database.typeId, changes })
+      );
+
+    // The backend accepted the batch, so it can be dropped from the queue.
+    for (let sequence = state.head; sequence < end; sequence++) {
+      world.setDynamicProperty(this.getQueueKey(sequence), undefined);
+    }
+    state.head = end;
+    this.writeQueueState();
+  }
+
+  /**
+   * Sends a request to the backend.
+   *
+   * @param method - The method of the request.
+   * @param path - The path of the request, relative to the endpoint.
+   * @param body - The JSON body of the request, if any.
+   * @returns The response of the backend.
+   * @throws if the backend could not be reached, or responded with an error status.
+   */
+  private async request(
+    method: HttpRequestMethod,
+    path: string,
+    body?: string
+  ): Promise<HttpResponse> {
+    const request = new HttpRequest(`${this.options.endpoint}${path}`)
+      .setMethod(method)
+      .setTimeout(this.options.timeoutSeconds)
+      .addHeader("Content-Type", "application/json");
+    for (const [key, value] of Object.entries(this.options.headers)) {
+      request.addHeader(key, value);
+    }
+    if (body !== undefined) request.setBody(body);
+
+    const response = await http.request(request);
+    if (response.status < 200 || response.status >= 300)
+      throw new Error(
+        `${method} ${path} responded with status ${response.status}!`
+      );
+
+    return response;
+  }
+
+  /**
+   * Makes the database match the backend. Queued changes are sent first, so
+   * they aren't overwritten, then the snapshot of the backend is pulled. Items
+   * that differ from it are updated, and items it doesn't have are removed.
+   *
+   * @returns The ids of the items that were updated, removed, or failed.
+   * @throws if the backend could not be reached, or sent an unsupported snapshot.
+   */
+  async reconcile(): Promise<ItemDatabaseSyncReconcileResult> {
+    while (this.getPendingCount() > 0) await this.flush();
+
+    const response = await this.request(
+      HttpRequestMethod.Get,
+      `/snapshot?typeId=${encodeURIComponent(this.database.typeId)}`
+    );
+    const snapshot = JSON.parse(
+      response.body
+    ) as ItemDatabaseSnapshot<IdentifierData>;
+
+    // Only entries that differ from the local item need to be stored again.
+    const remoteIds = new Set<string>();
+    const changedEntries = snapshot.entries.filter(
+      ({ id, data, item, expiresAt }) => {
+        remoteIds.add(id);
+        const localItem = this.database.getItem(id);
+        const localData = this.database.getItemData(id);
+        if (!localItem || !localData) return true;
+
+        return (
+          this.database.getItemExpiry(id) !== expiresAt ||
+          JSON.stringify(encodeItemData(localData)) !== JSON.stringify(data) ||
+          JSON.stringify(serializeItemStack(localItem)) !== JSON.stringify(item)
+        );
+      }
+    );
+    const removedIds = this.database
+      .getAllItemIds()
+      .filter((id) => !remoteIds.has(id));
+
+    for (const { id } of changedEntries) this.remoteChangeIds.add(id);
+    for (const id of removedIds) this.remoteChangeIds.add(id);
+    try {
+      const results = [
+        ...(await this.database.importSnapshot({
+          ...snapshot,
+          entries: changedEntries,
+        })),
+        ...(await this.database.removeItems(removedIds)),
+      ];
+
+      return {
+        updatedIds: changedEntries
+          .map(({ id }) => id)
+          .filter((_, i) => results[i]?.success),
+        removedIds: removedIds.filter(
+          (_, i) => results[changedEntries.length + i]?.success
+        ),
+        failedIds: results
+          .filter((result) => !result.success)
+          .map(({ id }) => id),
+      };
+    } finally {
+      // Changes that failed never emitted an event to clear them.
+      for (const { id } of changedEntries) this.remoteChangeIds.delete(id);
+      for (const id of removedIds) this.remoteChangeIds.delete(id);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { ItemStack } from "@minecraft/server";
+import {
+  ItemDatabaseItemStackData,
+  ItemDatabaseSetOptions,
+  ItemDatabaseTransactionOperation,
+} from "../types";
+import { assert } from "../utils";
+import { cloneItemData } from "./ItemDataCodec";
+
+/**
+ * Collects the writes of a transaction, so an item database can apply them all at once, or none at all.
+ * Nothing is written until the callback given to `ItemDatabase.transaction` has finished.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export class ItemDatabaseTransaction<
+  IdentifierData extends ItemDatabaseItemStackData
+> {
+  /**
+   * The writes of this transaction, in the order they were queued.
+   */
+  readonly operations: ItemDatabaseTransactionOperation<IdentifierData>[];
+
+  /**
+   * If writes can still be queued, until the transaction is committed.
+   */
+  private isOpen: boolean;
+
+  /**
+   * Creates a new, empty, transaction.
+   */
+  constructor() {
+    this.operations = [];
+    this.isOpen = true;
+  }
+
+  /**
+   * Queues an item to be stored, replacing the item with the same id.
+   *
+   * @param itemStack - The itemStack to store.
+   * @param data - The data to associate with this item.
+   * @param options - Options to store the item with, such as when it expires.
+   * @returns This transaction, to chain more writes.
+   * @throws if the transaction was already committed.
+   */
+  set(
+    itemStack: ItemStack,
+    data: IdentifierData,
+    options: ItemDatabaseSetOptions = {}
+  ): this {
+    this.assertOpen();
+    this.operations.push({
+      type: "set",
+      itemStack: itemStack.clone(),
+      data: cloneItemData(data),
+      options,
+    });
+    return this;
+  }
+
+  /**
+   * Queues an item to be removed. Removing an item that doesn't exist does nothing.
+   *
+   * @param id - The ID of the item to remove.
+   * @returns This transaction, to chain more writes.
+   * @throws if the transaction was already committed.
+   */
+  remove(id: IdentifierData["id"]): this {
+    this.assertOpen();
+    this.operations.push({ type: "remove", id });
+    return this;
+  }
+
+  /**
+   * Stops this transaction from taking more writes, once it is being committed.
+   */
+  close() {
+    this.isOpen = false;
+  }
+
+  /**
+   * Throws if this transaction no longer takes writes.
+   *
+   * @throws if the transaction was already committed.
+   */
+  private assertOpen() {
+    assert(this.isOpen, "Transaction was already committed!");
+  }
+}
@@ -0,0 +1,159 @@
+import { Entity, ItemStack } from "@minecraft/server";
+import {
+  ITEM_ID_PROPERTY,
+  SLOT_ID_PROPERTY_PREFIX,
+} from "../config/item-database";
+import {
+  ItemDatabaseIdentityEncoder,
+  ItemDatabaseIdentityEncoding,
+} from "../types";
+import { assert } from "../utils";
+
+/**
+ * Stores the id of an item by prefixing its name tag.
+ *
+ * @example "!!:<id>!!:<original name>"
+ */
+export class NameTagIdentityEncoder implements ItemDatabaseIdentityEncoder {
+  /**
+   * The prefix put around the id in the name tag.
+   */
+  readonly itemPrefix: string;
+
+  /**
+   * @param itemPrefix - The prefix put around the id in the name tag.
+   */
+  constructor(itemPrefix: string) {
+    this.itemPrefix = itemPrefix;
+  }
+
+  encode(itemStack: ItemStack, id: string): ItemStack {
+    this.assertEncodable(itemStack, id);
+
+    const encodedItemStack = itemStack.clone();
+    encodedItemStack.nameTag = `${this.itemPrefix}${id}${this.itemPrefix}${
+      itemStack.nameTag ?? ""
+    }`;
+    return encodedItemStack;
+  }
+
+  assertEncodable(_itemStack: ItemStack, id: string) {
+    assert(
+      !id.includes(this.itemPrefix),
+      `Item id "${id}" can't contain the item prefix "${this.itemPrefix}"!`
+    );
+  }
+
+  decode(itemStack: ItemStack): string | undefined {
+    const itemName = itemStack.nameTag;
+    if (!itemName || !itemName.startsWith(this.itemPrefix)) return undefined;
+
+    const idEnd = itemName.indexOf(this.itemPrefix, this.itemPrefix.length);
+    if (idEnd === -1) return undefined;
+    return itemName.slice(this.itemPrefix.length, idEnd);
+  }
+
+  strip(itemStack: ItemStack): ItemStack {
+    const strippedItemStack = itemStack.clone();
+    const id = this.decode(itemStack);
+    if (id === undefined) return strippedItemStack;
+
+    // Everything after the id is the original name, even if it has the prefix in it.
+    const originalName = itemStack.nameTag?.slice(
+      this.itemPrefix.length * 2 + id.length
+    );
+    strippedItemStack.nameTag = originalName ?? "";
+    return strippedItemStack;
+  }
+
+  release() {}
+}
+
+/**
+ * Stores the id of an item in a dynamic property of the item itself.
+ * Stackable items can't hold dynamic properties, so they can't be encoded.
+ */
+export class DynamicPropertyIdentityEncoder
+  implements ItemDatabaseIdentityEncoder
+{
+  encode(itemStack: ItemStack, id: string): ItemStack {
+    this.assertEncodable(itemStack);
+
+    const encodedItemStack = itemStack.clone();
+    encodedItemStack.setDynamicProperty(ITEM_ID_PROPERTY, id);
+    return encodedItemStack;
+  }
+
+  assertEncodable(itemStack: ItemStack) {
+    assert(
+      !itemStack.isStackable,
+      `Item (${itemStack.typeId}) is stackable, and can't hold its id in a dynamic property!`
+    );
+  }
+
+  decode(itemStack: ItemStack): string | undefined {
+    if (itemStack.isStackable) return undefined;
+
+    const id = itemStack.getDynamicProperty(ITEM_ID_PROPERTY);
+    return typeof id === "string" ? id : undefined;
+  }
+
+  strip(itemStack: ItemStack): ItemStack {
+    const strippedItemStack = itemStack.clone();
+    if (!itemStack.isStackable)
+      strippedItemStack.setDynamicProperty(ITEM_ID_PROPERTY, undefined);
+    return strippedItemStack;
+  }
+
+  release() {}
+}
+
+/**
+ * Stores the id of the item in each slot in a dynamic property of the
+ * entity holding it, leaving the item itself untouched.
+ */
+export class SlotMapIdentityEncoder implements ItemDatabaseIdentityEncoder {
+  encode(
+    itemStack: ItemStack,
+    id: string,
+    entity: Entity,
+    slot: number
+  ): ItemStack {
+    entity.setDynamicProperty(`${SLOT_ID_PROPERTY_PREFIX}${slot}`, id);
+    return itemStack.clone();
+  }
+
+  decode(_itemStack: ItemStack, entity: Entity, slot: number) {
+    const id = entity.getDynamicProperty(`${SLOT_ID_PROPERTY_PREFIX}${slot}`);
+    return typeof id === "string" ? id : undefined;
+  }
+
+  strip(itemStack: ItemStack): ItemStack {
+    return itemStack.clone();
+  }
+
+  release(entity: Entity, slot: number) {
+    entity.setDynamicProperty(`${SLOT_ID_PROPERTY_PREFIX}${slot}`, undefined);
+  }
+}
+
+/**
+ * Creates the encoder for one of the built in identity encodings.
+ *
+ * @param encoding - The identity encoding to create the encoder of.
+ * @param itemPrefix - The prefix used by the "nameTag" encoding.
+ * @returns The identity encoder.
+ */
+export function createIdentityEncoder(
+  encoding: ItemDatabaseIdentityEncoding,
+  itemPrefix: string
+): ItemDatabaseIdentityEncoder {
+  switch (encoding) {
+    case "nameTag":
+      return new NameTagIdentityEncoder(itemPrefix);
+    case "dynamicProperty":
+      return new DynamicPropertyIdentityEncoder();
+    case "slotMap":
+      return new SlotMapIdentityEncoder();
+  }
+}
@@ -0,0 +1,105 @@
+import { ItemStack } from "@minecraft/server";
+import { ItemDatabaseItemProjection, ItemDatabaseItemSearch } from "../types";
+import { matchesQueryFilter } from "./ItemDatabaseIndex";
+
+/**
+ * Removes the "minecraft:" namespace from an enchantment type id, so both forms compare equal.
+ *
+ * @param type - The id of the enchantment type.
+ * @returns The id without the namespace.
+ */
+function normalizeEnchantmentType(type: string): string {
+  return type.replace(/^minecraft:/, "");
+}
+
+/**
+ * Checks if a text contains a string, or matches a pattern.
+ *
+ * @param text - The text to check.
+ * @param pattern - The string it must contain, or the pattern it must match.
+ * @returns true if the text matches, false otherwise.
+ */
+function matchesText(text: string, pattern: string | RegExp): boolean {
+  // search ignores lastIndex, so global patterns match the same on every call.
+  return typeof pattern === "string"
+    ? text.includes(pattern)
+    : text.search(pattern) !== -1;
+}
+
+/**
+ * Reads the properties of an itemStack that items are searched by.
+ *
+ * @param itemStack - The itemStack to read.
+ * @returns The searchable properties of the itemStack.
+ */
+export function projectItemStack(
+  itemStack: ItemStack
+): ItemDatabaseItemProjection {
+  const enchantable = itemStack.getComponent("enchantable");
+  const durability = itemStack.getComponent("durability");
+
+  return {
+    typeId: itemStack.typeId,
+    amount: itemStack.amount,
+    enchantments: (enchantable?.getEnchantments() ?? []).map(
+      ({ type, level }) => ({ type: normalizeEnchantmentType(type.id), level })
+    ),
+    lore: itemStack.getLore(),
+    nameTag: itemStack.nameTag,
+    durability: durability
+      ? durability.maxDurability - durability.damage
+      : undefined,
+  };
+}
+
+/**
+ * Checks if the properties of an item match every filter of a search.
+ *
+ * @param projection - The searchable properties of the item.
+ * @param search - The search to check the item against.
+ * @returns true if the item matches the search, false otherwise.
+ */
+export function matchesItemSearch(
+  projection: ItemDatabaseItemProjection,
+  search: ItemDatabaseItemSearch
+): boolean {
+  if (search.typeId !== undefined) {
+    if (
+      typeof search.typeId === "string"
+        ? projection.typeId !== search.typeId
+        : projection.typeId.search(search.typeId) === -1
+    )
+      return false;
+  }
+  if (search.amount && !matchesQueryFilter(projection.amount, search.amount))
+    return false;
+  if (
+    search.durability &&
+    (projection.durability === undefined ||
+      !matchesQueryFilter(projection.durability, search.durability))
+  )
+    return false;
+
+  for (const { type, level } of search.enchantments ?? []) {
+    const enchantment = projection.enchantments.find(
+      (enchantment) => enchantment.type === normalizeEnchantmentType(type)
+    );
+    if (!enchantment) return false;
+    if (level && !matchesQueryFilter(enchantment.level, level)) return false;
+  }
+
+  const { lore, nameTag } = search;
+  if (
+    lore !== undefined &&
+    !projection.lore.some((line) => matchesText(line, lore))
+  )
+    return false;
+  if (
+    nameTag !== undefined &&
+    (projection.nameTag === undefined ||
+      !matchesText(projection.nameTag, nameTag))
+  )
+    return false;
+
+  return true;
+}
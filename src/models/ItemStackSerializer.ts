@@ -0,0 +1,83 @@
+import { EnchantmentType, ItemLockMode, ItemStack } from "@minecraft/server";
+import { ItemDatabaseSerializedItemStack } from "../types";
+
+/**
+ * Serializes an itemStack to plain JSON.
+ *
+ * @param itemStack - The itemStack to serialize.
+ * @returns The serialized itemStack.
+ */
+export function serializeItemStack(
+  itemStack: ItemStack
+): ItemDatabaseSerializedItemStack {
+  const serialized: ItemDatabaseSerializedItemStack = {
+    typeId: itemStack.typeId,
+    amount: itemStack.amount,
+    lore: itemStack.getLore(),
+    enchantments: [],
+    canPlaceOn: itemStack.getCanPlaceOn(),
+    canDestroy: itemStack.getCanDestroy(),
+    dynamicProperties: {},
+    keepOnDeath: itemStack.keepOnDeath,
+    lockMode: itemStack.lockMode,
+  };
+  if (itemStack.nameTag) serialized.nameTag = itemStack.nameTag;
+
+  const enchantable = itemStack.getComponent("enchantable");
+  for (const { type, level } of enchantable?.getEnchantments() ?? []) {
+    serialized.enchantments.push({ type: type.id, level });
+  }
+
+  const durability = itemStack.getComponent("durability");
+  if (durability) serialized.damage = durability.damage;
+
+  // Only unstackable items can hold dynamic properties.
+  if (!itemStack.isStackable) {
+    for (const id of itemStack.getDynamicPropertyIds()) {
+      const value = itemStack.getDynamicProperty(id);
+      if (value !== undefined) serialized.dynamicProperties[id] = value;
+    }
+  }
+
+  return serialized;
+}
+
+/**
+ * Rebuilds an itemStack from its serialized JSON.
+ *
+ * @param serialized - The serialized itemStack.
+ * @returns The rebuilt itemStack.
+ * @throws if the item type does not exist, or a property can't be applied to it.
+ */
+export function deserializeItemStack(
+  serialized: ItemDatabaseSerializedItemStack
+): ItemStack {
+  const itemStack = new ItemStack(serialized.typeId, serialized.amount);
+  if (serialized.nameTag !== undefined) itemStack.nameTag = serialized.nameTag;
+  if (serialized.lore.length > 0) itemStack.setLore(serialized.lore);
+  if (serialized.canPlaceOn.length > 0)
+    itemStack.setCanPlaceOn(serialized.canPlaceOn);
+  if (serialized.canDestroy.length > 0)
+    itemStack.setCanDestroy(serialized.canDestroy);
+  itemStack.keepOnDeath = serialized.keepOnDeath;
+  itemStack.lockMode = serialized.lockMode as ItemLockMode;
+
+  if (serialized.enchantments.length > 0) {
+    const enchantable = itemStack.getComponent("enchantable");
+    if (!enchantable)
+      throw new Error(`Item (${serialized.typeId}) can't be enchanted!`);
+    for (const { type, level } of serialized.enchantments) {
+      enchantable.addEnchantment({ type: new EnchantmentType(type), level });
+    }
+  }
+
+  if (serialized.damage !== undefined) {
+    const durability = itemStack.getComponent("durability");
+    if (durability) durability.damage = serialized.damage;
+  }
+
+  if (Object.keys(serialized.dynamicProperties).length > 0)
+    itemStack.setDynamicProperties(serialized.dynamicProperties);
+
+  return itemStack;
+}
@@ -0,0 +1,177 @@
+import { Vector3, system, world } from "@minecraft/server";
+import {
+  ENTITY_DIMENSION,
+  ENTITY_LOCATION,
+  LEGACY_TICKING_AREA_NAME,
+} from "../config/item-database";
+import { getEntityBoundingBox } from "../utils";
+
+/**
+ * A ticking area kept loaded for the entities of item databases.
+ */
+type ManagedTickingArea = {
+  /** The name of the ticking area. */
+  name: string;
+  /** The dimension the ticking area is in. */
+  dimension: string;
+  /** The location the ticking area is around. */
+  location: Vector3;
+  /** The typeIds of the databases using this ticking area. */
+  users: Set<string>;
+};
+
+/**
+ * Manages the ticking areas that keep the entities of every item database
+ * loaded, sharing one ticking area between databases at the same location.
+ */
+export class TickingAreaManager {
+  /**
+   * Ticking areas currently in use.
+   * @key - The dimension and location of the ticking area.
+   * @value - The ticking area.
+   */
+  private static areas: Map<string, ManagedTickingArea> = new Map();
+
+  /**
+   * Gets the key a ticking area is stored under.
+   *
+   * @param dimension - The dimension of the ticking area.
+   * @param location - The location of the ticking area.
+   * @returns The key of the ticking area.
+   */
+  private static getKey(dimension: string, location: Vector3): string {
+    return `${dimension}:${location.x},${location.y},${location.z}`;
+  }
+
+  /**
+   * Gets the name of the ticking area for a location.
+   *
+   * @param dimension - The dimension of the ticking area.
+   * @param location - The location of the ticking area.
+   * @returns The name of the ticking area.
+   * @example "itemDatabase_overworld_0_0_0"
+   */
+  static getAreaName(dimension: string, location: Vector3): string {
+    if (
+      dimension === ENTITY_DIMENSION &&
+      this.getKey(dimension, location) ===
+        this.getKey(ENTITY_DIMENSION, ENTITY_LOCATION)
+    )
+      return LEGACY_TICKING_AREA_NAME;
+
+    const coordinates = [location.x, location.y, location.z]
+      .map((coordinate) => Math.floor(coordinate).toString().replace("-", "m"))
+      .join("_");
+    return `${LEGACY_TICKING_AREA_NAME}_${dimension.replace(
+      "minecraft:",
+      ""
+    )}_${coordinates}`;
+  }
+
+  /**
+   * Makes sure a ticking area exists for a location, on behalf of a database.
+   * Must be called once the world has loaded.
+   *
+   * @param typeId - The typeId of the database using the ticking area.
+   * @param dimension - The dimension of the ticking area.
+   * @param location - The location of the ticking area.
+   */
+  static acquire(typeId: string, dimension: string, location: Vector3) {
+    const key = this.getKey(dimension, location);
+    let area = this.areas.get(key);
+    const isNewArea = !area;
+    if (!area) {
+      area = {
+        name: this.getAreaName(dimension, location),
+        dimension,
+        location,
+        users: new Set(),
+      };
+      this.areas.set(key, area);
+    }
+    area.users.add(typeId);
+
+    // Added the first time it's used this session, even if it was added before
+    // a restart, since it may have been removed by hand since.
+    if (!isNewArea) return;
+
+    try {
+      world
+        .getDimension(dimension)
+        .runCommand(
+          `tickingarea add ${getEntityBoundingBox(location)} ${area.name} true`
+        );
+    } catch (error) {
+      // Expected on every restart, as the ticking area is kept by the world.
+      if (/already exists/i.test(`${error}`)) return;
+
+      console.warn(
+        `[ITEM_DATABASE] Failed to add ticking area "${area.name}": ${error}`
+      );
+    }
+  }
+
+  /**
+   * Stops a database from using a ticking area, removing it once no database uses it.
+   *
+   * @param typeId - The typeId of the database that used the ticking area.
+   * @param dimension - The dimension of the ticking area.
+   * @param location - The location of the ticking area.
+   */
+  static release(typeId: string, dimension: string, location: Vector3) {
+    const key = this.getKey(dimension, location);
+    const area = this.areas.get(key);
+    if (!area) return;
+
+    area.users.delete(typeId);
+    if (area.users.size > 0) return;
+    this.areas.delete(key);
+
+    try {
+      world
+        .getDimension(dimension)
+        .runCommand(`tickingarea remove ${area.name}`);
+    } catch (error) {
+      console.warn(
+        `[ITEM_DATABASE] Failed to remove ticking area "${area.name}": ${error}`
+      );
+    }
+  }
+
+  /**
+   * Checks if the chunk at a location is loaded.
+   *
+   * @param dimension - The dimension of the location.
+   * @param location - The location to check.
+   * @returns true if the chunk is loaded, false otherwise.
+   */
+  static isLoaded(dimension: string, location: Vector3): boolean {
+    try {
+      return world.getDimension(dimension).getBlock(location) !== undefined;
+    } catch {
+      // Thrown if the location is in an unloaded chunk.
+      return false;
+    }
+  }
+
+  /**
+   * Waits until the chunk at a location is loaded.
+   *
+   * @param dimension - The dimension of the location.
+   * @param location - The location to wait for.
+   * @param timeoutTicks - The maximum amount of ticks to wait.
+   * @returns true if the chunk loaded, false if it timed out.
+   */
+  static async waitUntilLoaded(
+    dimension: string,
+    location: Vector3,
+    timeoutTicks = 200
+  ): Promise<boolean> {
+    for (let tick = 0; tick < timeoutTicks; tick++) {
+      if (this.isLoaded(dimension, location)) return true;
+      await system.waitTicks(1);
+    }
+
+    return this.isLoaded(dimension, location);
+  }
+}
@@ -1,26 +1,89 @@
 import {
   CommandPermissionLevel,
+  CustomCommandOrigin,
+  CustomCommandParamType,
   CustomCommandSource,
   CustomCommandStatus,
   Player,
   system,
 } from "@minecraft/server";
+import { ItemDatabaseManager } from "../models/ItemDatabaseManager";
 import { ItemDatabase } from "../models/ItemDatabaseModel";
+import { ItemDatabaseIntegrityReport, ItemDatabaseItemSearch } from "../types";
 
 /**
  * The item database to do tests on
  */
 const pushPullDB = new ItemDatabase("pushPullTest");
 
+/**
+ * The max length of each chunk of an export, written to the content log.
+ */
+const EXPORT_CHUNK_SIZE = 1000;
+
+// Log items pushed with a ttl, once they expire.
+pushPullDB.events.subscribe("expired", ({ id, item }) => {
+  console.log(
+    `[ITEM_DATABASE] Item (${item.typeId}) with id: ${id} expired from "${pushPullDB.typeId}"`
+  );
+});
+
+/**
+ * Formats an integrity report into a short summary.
+ *
+ * @param report - The report to format.
+ * @returns The summary of the report.
+ */
+function formatIntegrityReport(report: ItemDatabaseIntegrityReport): string {
+  return [
+    `§7Items without id: §d${report.itemsWithoutId.length}`,
+    `§7Duplicate ids: §d${report.duplicateIds.length}`,
+    `§7Missing items: §d${report.missingItems.length}`,
+    `§7Empty entities: §d${report.emptyEntities.length}`,
+  ].join("\n");
+}
+
+/**
+ * Gets the database an admin command should run on.
+ *
+ * @param typeId - The typeId of the database, defaults to the push pull database.
+ * @returns The database, or undefined if there is none with this typeId.
+ */
+function getCommandDatabase(typeId?: string) {
+  return typeId ? ItemDatabaseManager.get(typeId) : pushPullDB;
+}
+
+/**
+ * Sends a message to the player that ran a command, if it was ran by a player.
+ *
+ * @param origin - The origin of the command.
+ * @param message - The message to send.
+ */
+function replyToOrigin(origin: CustomCommandOrigin, message: string) {
+  if (
+    origin.sourceType === CustomCommandSource.Entity &&
+    origin.sourceEntity instanceof Player
+  )
+    origin.sourceEntity.sendMessage(message);
+  console.log(message);
+}
+
 system.beforeEvents.startup.subscribe((data) => {
   data.customCommandRegistry.registerCommand(
     {
       name: "item_database:pushhelditem",
-      description: "Pushes the selected item in your hand to the database",
+      description:
+        "Pushes the selected item in your hand to the database, expiring after ttlSeconds if given",
       permissionLevel: CommandPermissionLevel.Admin,
       cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "ttlSeconds",
+          type: CustomCommandParamType.Integer,
+        },
+      ],
     },
-    (origin) => {
+    (origin, ttlSeconds?: number) => {
       if (origin.sourceType !== CustomCommandSource.Entity)
         return {
           status: CustomCommandStatus.Failure,
@@ -52,7 +115,9 @@ system.beforeEvents.startup.subscribe((data) => {
 
       const id = Date.now().toString();
       system.run(() => {
-        pushPullDB.setItem(itemStack, { id }).then((status) => {
+        const options =
+          ttlSeconds !== undefined ? { ttl: ttlSeconds * 1000 } : {};
+        pushPullDB.setItem(itemStack, { id }, options).then((status) => {
           if (!status) {
             entity.onScreenDisplay.setActionBar(
               `§cFailed to push item to database`
@@ -131,6 +196,84 @@ system.beforeEvents.startup.subscribe((data) => {
     }
   );
 
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:pullitem",
+      description:
+        "Reserves an item of the database, and takes it into your inventory if it has room",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      mandatoryParameters: [
+        {
+          name: "id",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, id: string) => {
+      if (origin.sourceType !== CustomCommandSource.Entity)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: "This command can only be used by an entity",
+        };
+
+      const entity = origin.sourceEntity;
+      if (!(entity instanceof Player))
+        return {
+          status: CustomCommandStatus.Failure,
+          message: "This command can only be used by a player",
+        };
+
+      const inventory = entity.getComponent("inventory");
+      if (!inventory || !inventory.isValid)
+        return {
+          status: CustomCommandStatus.Failure,
+          message:
+            "This command can only be used by a player with a valid inventory",
+        };
+
+      system.run(async () => {
+        const reservation = await pushPullDB.reserve(id);
+        if (!reservation) {
+          entity.onScreenDisplay.setActionBar(
+            `§cItem with id: ${id} is not stored, or already reserved`
+          );
+          entity.playSound("random.bass");
+          return;
+        }
+
+        // The item stays in the database if there is no room for it.
+        if (inventory.container.emptySlotsCount === 0) {
+          pushPullDB.release(reservation.token);
+          entity.onScreenDisplay.setActionBar(
+            `§cNo room in your inventory for item with id: ${id}`
+          );
+          entity.playSound("random.bass");
+          return;
+        }
+
+        const item = await pushPullDB.commit(reservation.token);
+        if (!item) {
+          entity.onScreenDisplay.setActionBar(
+            `§cFailed to take item with id: ${id}, it was removed or its reservation timed out`
+          );
+          entity.playSound("random.bass");
+          return;
+        }
+        inventory.container.addItem(item);
+        entity.onScreenDisplay.setActionBar(
+          `§aItem §epulled§a from database with id: ${id}`
+        );
+        entity.playSound("random.pop");
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Pulling the item from the database!",
+      };
+    }
+  );
+
   data.customCommandRegistry.registerCommand(
     {
       name: "item_database:clear",
@@ -170,4 +313,407 @@ system.beforeEvents.startup.subscribe((data) => {
       };
     }
   );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:verify",
+      description: "Verifies the integrity of the database",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      system.run(async () => {
+        try {
+          const report = await database.verify();
+          replyToOrigin(
+            origin,
+            `§aVerified the database:\n${formatIntegrityReport(report)}`
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to verify database: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Verifying the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:repair",
+      description: "Repairs the integrity of the database",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "dryRun",
+          type: CustomCommandParamType.Boolean,
+        },
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, dryRun?: boolean, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      system.run(async () => {
+        try {
+          const result = await database.repair({ dryRun: dryRun ?? false });
+          replyToOrigin(
+            origin,
+            [
+              `§a${
+                result.dryRun ? "Dry run of repairing" : "Repaired"
+              } the database:`,
+              formatIntegrityReport(result.report),
+              `§7Quarantined items: §d${result.quarantinedItemIds.length}`,
+              `§7Dropped items: §d${result.droppedItemIds.length}`,
+              `§7Removed entities: §d${result.removedEntityIds.length}`,
+            ].join("\n")
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to repair database: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Repairing the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:recover",
+      description:
+        "Recovers the items of removed database entities, waiting on an admin",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      system.run(async () => {
+        try {
+          const reports = await database.recoverLostEntities();
+          const recovered = reports.reduce(
+            (count, report) => count + report.recoveredItemIds.length,
+            0
+          );
+          const failed = reports.reduce(
+            (count, report) => count + report.failedItemIds.length,
+            0
+          );
+          replyToOrigin(
+            origin,
+            `§aRecovered §d${recovered}§a items of §d${reports.length}§a removed entities, §c${failed}§a failed`
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to recover database: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Recovering the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:syncreplicas",
+      description:
+        "Re-creates the missing, or out of sync, copies of a replicated database",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+      if (database.replicas.length === 0)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${database.typeId}" is not replicated!`,
+        };
+
+      system.run(async () => {
+        try {
+          const result = await database.syncReplicas();
+          replyToOrigin(
+            origin,
+            `§aRe-created §d${result.recreatedItemIds.length}§a items across §d${database.replicas.length}§a replicas, §c${result.failedItemIds.length}§a failed`
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to sync replicas: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Syncing the replicas of the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:compact",
+      description:
+        "Moves the items of the database into as few entities as possible",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      system.run(async () => {
+        try {
+          const fillRatio = database.getFillRatio();
+          const result = await database.compact();
+          replyToOrigin(
+            origin,
+            `§aMoved §d${result.movedItemIds.length}§a items, and removed §d${
+              result.removedEntityIds.length
+            }§a entities, fill ratio went from §d${fillRatio.toFixed(
+              2
+            )}§a to §d${database.getFillRatio().toFixed(2)}`
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to compact database: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Compacting the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:export",
+      description:
+        "Exports a snapshot of the database to the content log, in chunks",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (origin, databaseTypeId?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      system.run(() => {
+        try {
+          const snapshot = JSON.stringify(database.exportSnapshot());
+          const chunkCount = Math.ceil(snapshot.length / EXPORT_CHUNK_SIZE);
+          for (let i = 0; i < chunkCount; i++) {
+            const chunk = snapshot.slice(
+              i * EXPORT_CHUNK_SIZE,
+              (i + 1) * EXPORT_CHUNK_SIZE
+            );
+            console.log(
+              `[ITEM_DATABASE] Export of "${database.typeId}" (${
+                i + 1
+              }/${chunkCount}): ${chunk}`
+            );
+          }
+
+          replyToOrigin(
+            origin,
+            `§aExported the database to the content log in §d${chunkCount}§a chunks`
+          );
+        } catch (error) {
+          replyToOrigin(origin, `§cFailed to export database: ${error}`);
+        }
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Exporting the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:search",
+      description:
+        "Searches the items of a database by a typeId pattern, and an enchantment with its minimum level",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+        {
+          name: "typeIdPattern",
+          type: CustomCommandParamType.String,
+        },
+        {
+          name: "enchantment",
+          type: CustomCommandParamType.String,
+        },
+        {
+          name: "minLevel",
+          type: CustomCommandParamType.Integer,
+        },
+      ],
+    },
+    (
+      origin,
+      databaseTypeId?: string,
+      typeIdPattern?: string,
+      enchantment?: string,
+      minLevel?: number
+    ) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      const search: ItemDatabaseItemSearch = {};
+      try {
+        if (typeIdPattern !== undefined)
+          search.typeId = new RegExp(typeIdPattern);
+      } catch (error) {
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Invalid typeId pattern: ${error}`,
+        };
+      }
+      if (enchantment !== undefined)
+        search.enchantments = [
+          minLevel !== undefined
+            ? { type: enchantment, level: { gte: minLevel } }
+            : { type: enchantment },
+        ];
+
+      system.run(() => {
+        const entries = database.searchItems(search);
+        replyToOrigin(
+          origin,
+          `§aFound §d${entries.length}§a matching items in "${database.typeId}"` +
+            entries
+              .map(
+                ({ id, item }) =>
+                  `\n§7- ${id}: §f${item.typeId} x${item.amount}`
+              )
+              .join("")
+        );
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Searching the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:capacity",
+      description:
+        "Shows how many more items the database, or an owner, can store",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      optionalParameters: [
+        {
+          name: "database",
+          type: CustomCommandParamType.String,
+        },
+        {
+          name: "owner",
+          type: CustomCommandParamType.String,
+        },
+      ],
+    },
+    (_, databaseTypeId?: string, owner?: string) => {
+      const database = getCommandDatabase(databaseTypeId);
+      if (!database)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: `Database "${databaseTypeId}" does not exist!`,
+        };
+
+      const capacity = database.getRemainingCapacity(owner);
+      return {
+        status: CustomCommandStatus.Success,
+        message:
+          `§aRemaining capacity: §d${capacity.items}§a items, §d${capacity.entities}§a entities` +
+          (capacity.owner !== undefined
+            ? `, §d${capacity.owner}§a items for "${owner}"`
+            : ""),
+      };
+    }
+  );
 });
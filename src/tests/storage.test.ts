@@ -4,13 +4,30 @@ import { ItemDatabase } from "../models/ItemDatabaseModel";
 /**
  * The item database to do tests on
  */
-const testItemDB = new ItemDatabase("testItems");
+const testItemDB = new ItemDatabase<{
+  id: string;
+  owner: string;
+  storedAt: Date;
+}>("testItems", {
+  identity: "slotMap",
+  schema: {
+    version: 2,
+    fields: { owner: { type: "string" }, storedAt: { type: "date" } },
+    // Version 1 records had no storedAt.
+    migrations: { 1: (data) => ({ ...data, storedAt: new Date(0) }) },
+  },
+});
 
 // Push item to database when used
 world.afterEvents.itemUse.subscribe(async ({ itemStack, source }) => {
   const usedSlot = source.selectedSlotIndex; // Get slot, to ensure they don't move there cursor.
   const id = Date.now().toString();
-  const setStatus = await testItemDB.setItem(itemStack, { id });
+  const storedAt = new Date();
+  const setStatus = await testItemDB.setItem(itemStack, {
+    id,
+    owner: source.name,
+    storedAt,
+  });
   if (!setStatus) {
     source.onScreenDisplay.setActionBar(`§cFailed to push item to database`);
     source.playSound("random.bass");
@@ -31,17 +48,39 @@ world.afterEvents.itemUse.subscribe(async ({ itemStack, source }) => {
   // Wait a second
   await system.waitTicks(TicksPerSecond);
 
-  // Add item back to inventory from database
-  const item = testItemDB.getItem(id);
+  // Confirm the data was stored alongside the item
+  const itemData = testItemDB.getItemData(id);
+  if (
+    itemData?.owner !== source.name ||
+    !(itemData.storedAt instanceof Date) ||
+    itemData.storedAt.getTime() !== storedAt.getTime()
+  ) {
+    source.onScreenDisplay.setActionBar(
+      `§cFailed to retrieve item data from database with id: ${id}`
+    );
+    source.playSound("random.bass");
+    return;
+  }
+
+  // Take item back to inventory from database, removing it at the same time
+  const item = await testItemDB.takeItem(id);
   if (!item) {
     source.onScreenDisplay.setActionBar(
-      `§cFailed to retrieve item from database with id: ${id}`
+      `§cFailed to take item from database with id: ${id}`
+    );
+    source.playSound("random.bass");
+    return;
+  }
+  // Confirm the name of the item was left untouched
+  if (item.nameTag !== itemStack.nameTag) {
+    source.onScreenDisplay.setActionBar(
+      `§cItem name changed in database with id: ${id}`
     );
     source.playSound("random.bass");
     return;
   }
   source.onScreenDisplay.setActionBar(
-    `§aItem §eretrieved§a from database with id: ${id}`
+    `§aItem §etaken§a from database with id: ${id}`
   );
   inventoryContainer.setItem(usedSlot, item);
   source.playSound("random.orb");
@@ -49,19 +88,10 @@ world.afterEvents.itemUse.subscribe(async ({ itemStack, source }) => {
   // Wait a second
   await system.waitTicks(TicksPerSecond);
 
-  // Remove item from database
-  const removeStatus = await testItemDB.removeItem(id);
-  if (!removeStatus) {
-    source.onScreenDisplay.setActionBar(
-      `§cFailed to remove item from database with id: ${id}`
-    );
-    source.playSound("random.bass");
-    return;
-  }
-
-  // Confirm item removal
+  // Confirm item removal, and that it can't be taken twice
   const itemRemoved = testItemDB.getItem(id);
-  if (itemRemoved) {
+  const takenTwice = await testItemDB.takeItem(id);
+  if (itemRemoved || takenTwice) {
     source.onScreenDisplay.setActionBar(
       `§cFailed to confirm item removal from database with id: ${id}`
     );
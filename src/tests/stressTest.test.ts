@@ -7,6 +7,7 @@ import {
   Player,
   system,
 } from "@minecraft/server";
+import { ITEM_PREFIX } from "../config/item-database";
 import { ItemDatabase } from "../models/ItemDatabaseModel";
 import { generateUniqueId, randomInList } from "../utils";
 import { MinecraftItemTypes } from "@minecraft/vanilla-data";
@@ -29,8 +30,14 @@ system.beforeEvents.startup.subscribe((data) => {
           type: CustomCommandParamType.Integer,
         },
       ],
+      optionalParameters: [
+        {
+          name: "removeAfter",
+          type: CustomCommandParamType.Boolean,
+        },
+      ],
     },
-    (origin, args) => {
+    (origin, args, removeAfter?: boolean) => {
       if (origin.sourceType !== CustomCommandSource.Entity)
         return {
           status: CustomCommandStatus.Failure,
@@ -68,15 +75,27 @@ system.beforeEvents.startup.subscribe((data) => {
       const items = stressTestDB.getAllItems();
       entity.sendMessage(`§aFound §d${items.length} §aitems in database`);
 
+      const reportItemCount = () =>
+        entity.sendMessage(
+          `§aDatabase now holds §d${
+            stressTestDB.getAllItemIds().length
+          } §aitems`
+        );
+
       system.run(async () => {
         const itemIds: string[] = [];
+
+        // Only time the database calls, not the ticks waited in between.
+        let setDuration = 0;
         for (let i = 0; i < amount; i++) {
           const itemStack = new ItemStack(
             randomInList(Object.values(MinecraftItemTypes)),
             1
           );
           const id = Date.now().toString() + "-" + generateUniqueId();
+          const setStart = Date.now();
           const status = await stressTestDB.setItem(itemStack, { id });
+          setDuration += Date.now() - setStart;
           if (!status) {
             entity.onScreenDisplay.setActionBar(
               `§cFailed to push item to database`
@@ -89,6 +108,36 @@ system.beforeEvents.startup.subscribe((data) => {
 
           if (i % 100 === 0) await system.waitTicks(1);
         }
+        entity.sendMessage(
+          `§aPushed §d${amount} §aitems in §d${setDuration}ms §7(${(
+            setDuration / amount
+          ).toFixed(2)}ms/item)`
+        );
+
+        if (!removeAfter) return reportItemCount();
+
+        // Remove the pushed items again, to time removals.
+        let removeDuration = 0;
+        for (let i = 0; i < itemIds.length; i++) {
+          const removeStart = Date.now();
+          const status = await stressTestDB.removeItem(itemIds[i] as string);
+          removeDuration += Date.now() - removeStart;
+          if (!status) {
+            entity.onScreenDisplay.setActionBar(
+              `§cFailed to remove item from database`
+            );
+            entity.playSound("random.bass");
+            return;
+          }
+
+          if (i % 100 === 0) await system.waitTicks(1);
+        }
+        entity.sendMessage(
+          `§aRemoved §d${itemIds.length} §aitems in §d${removeDuration}ms §7(${(
+            removeDuration / itemIds.length
+          ).toFixed(2)}ms/item)`
+        );
+        reportItemCount();
       });
 
       return {
@@ -97,4 +146,203 @@ system.beforeEvents.startup.subscribe((data) => {
       };
     }
   );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:stresstestbatch",
+      description: "Pushes random items to the database as a single batch",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+      mandatoryParameters: [
+        {
+          name: "amount",
+          type: CustomCommandParamType.Integer,
+        },
+      ],
+    },
+    (origin, amount: number) => {
+      if (origin.sourceType !== CustomCommandSource.Entity)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: "This command can only be used by an entity",
+        };
+
+      const entity = origin.sourceEntity;
+      if (!(entity instanceof Player))
+        return {
+          status: CustomCommandStatus.Failure,
+          message: "This command can only be used by a player",
+        };
+
+      if (amount < 1)
+        return {
+          status: CustomCommandStatus.Failure,
+          message: "Amount must be greater than 0",
+        };
+
+      system.run(async () => {
+        const entries = Array.from({ length: amount }, () => ({
+          itemStack: new ItemStack(
+            randomInList(Object.values(MinecraftItemTypes)),
+            1
+          ),
+          data: { id: Date.now().toString() + "-" + generateUniqueId() },
+        }));
+
+        const start = Date.now();
+        const results = await stressTestDB.setItems(
+          entries,
+          (completed, total) =>
+            entity.onScreenDisplay.setActionBar(
+              `§aPushing items §d${completed}§7/§d${total}`
+            )
+        );
+        const failed = results.filter((result) => !result.success);
+        entity.sendMessage(
+          `§aPushed §d${
+            results.length - failed.length
+          }§7/§d${amount} §aitems in §d${Date.now() - start}ms`
+        );
+        if (failed.length > 0) {
+          entity.playSound("random.bass");
+          console.warn(
+            `Failed to push ${failed.length}x items: ${failed[0]?.error}`
+          );
+          return;
+        }
+        entity.playSound("random.pop");
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Items registered to be pushed to database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:concurrencytest",
+      description:
+        "Pushes the same id to the database concurrently, and checks only the last write is kept",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+    },
+    (origin) => {
+      system.run(async () => {
+        const id = Date.now().toString() + "-" + generateUniqueId();
+        const writes: Promise<boolean>[] = [];
+        for (let amount = 1; amount <= 10; amount++) {
+          writes.push(
+            stressTestDB.setItem(
+              new ItemStack(MinecraftItemTypes.Diamond, amount),
+              { id }
+            )
+          );
+        }
+        await Promise.all(writes);
+
+        const copies = stressTestDB
+          .getAllItemIds()
+          .filter((itemId) => itemId === id).length;
+        const amount = stressTestDB.getItem(id)?.amount;
+        const passed = copies === 1 && amount === 10;
+        const message = passed
+          ? `§aConcurrent writes resolved to a single copy of the last write`
+          : `§cConcurrent writes left ${copies}x copies, with amount ${amount}`;
+
+        if (
+          origin.sourceType === CustomCommandSource.Entity &&
+          origin.sourceEntity instanceof Player
+        ) {
+          origin.sourceEntity.sendMessage(message);
+          origin.sourceEntity.playSound(passed ? "random.pop" : "random.bass");
+        }
+        await stressTestDB.removeItem(id);
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Running concurrent writes on the database!",
+      };
+    }
+  );
+
+  data.customCommandRegistry.registerCommand(
+    {
+      name: "item_database:transactiontest",
+      description:
+        "Runs failing transactions on the database, and checks none of their writes are kept",
+      permissionLevel: CommandPermissionLevel.Admin,
+      cheatsRequired: true,
+    },
+    (origin) => {
+      system.run(async () => {
+        const keptId = Date.now().toString() + "-" + generateUniqueId();
+        const addedId = Date.now().toString() + "-" + generateUniqueId();
+        await stressTestDB.setItem(
+          new ItemStack(MinecraftItemTypes.Diamond, 1),
+          { id: keptId }
+        );
+
+        // Runs a transaction that should fail, and checks none of its writes were kept.
+        const isRolledBack = async (
+          callback: Parameters<typeof stressTestDB.transaction>[0]
+        ) => {
+          try {
+            await stressTestDB.transaction(callback);
+            return false;
+          } catch {
+            const keptItem = stressTestDB.getItem(keptId);
+            return (
+              keptItem?.typeId === MinecraftItemTypes.Diamond &&
+              keptItem.amount === 1 &&
+              !stressTestDB.getItem(addedId)
+            );
+          }
+        };
+
+        // Fails before anything is written.
+        const abortRolledBack = await isRolledBack((tx) => {
+          tx.remove(keptId);
+          tx.set(new ItemStack(MinecraftItemTypes.Emerald, 1), {
+            id: addedId,
+          });
+          throw new Error("Transaction aborted");
+        });
+
+        // Fails on the last write, after the others were applied, as its id can't be encoded.
+        const writeRolledBack = await isRolledBack((tx) => {
+          tx.set(new ItemStack(MinecraftItemTypes.Emerald, 5), {
+            id: keptId,
+          });
+          tx.set(new ItemStack(MinecraftItemTypes.Emerald, 1), {
+            id: addedId,
+          });
+          tx.set(new ItemStack(MinecraftItemTypes.Emerald, 1), {
+            id: `${ITEM_PREFIX}${addedId}`,
+          });
+        });
+
+        const passed = abortRolledBack && writeRolledBack;
+        const message = passed
+          ? `§aFailed transactions were rolled back`
+          : `§cFailed transactions left some of their writes (aborted: ${abortRolledBack}, failed write: ${writeRolledBack})`;
+
+        if (
+          origin.sourceType === CustomCommandSource.Entity &&
+          origin.sourceEntity instanceof Player
+        ) {
+          origin.sourceEntity.sendMessage(message);
+          origin.sourceEntity.playSound(passed ? "random.pop" : "random.bass");
+        }
+        await stressTestDB.removeItems([keptId, addedId]);
+      });
+
+      return {
+        status: CustomCommandStatus.Success,
+        message: "Running transactions on the database!",
+      };
+    }
+  );
 });
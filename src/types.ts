@@ -1,3 +1,18 @@
+import type { Entity, ItemStack, Vector3 } from "@minecraft/server";
+
+/**
+ * A value that can be stored in the identifier data of an item.
+ * Every value round-trips through storage losslessly, including Dates.
+ */
+export type ItemDatabaseMetadataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | ItemDatabaseMetadataValue[]
+  | { [key: string]: ItemDatabaseMetadataValue };
+
 /**
  * A data structure representing an item in a database.
  * This structure is used to store information about items
@@ -5,6 +20,850 @@
  * The structure is designed to be flexible and extensible,
  */
 export type ItemDatabaseItemStackData = {
-  [key: string]: string;
+  [key: string]: ItemDatabaseMetadataValue;
+  id: string;
+};
+
+/**
+ * A value that can be written as JSON.
+ */
+export type ItemDatabaseJsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ItemDatabaseJsonValue[]
+  | { [key: string]: ItemDatabaseJsonValue };
+
+/**
+ * The identifier data of an item, encoded to plain JSON by `encodeItemData`.
+ */
+export type ItemDatabaseEncodedItemData = {
+  [key: string]: ItemDatabaseJsonValue;
+  id: string;
+};
+
+/**
+ * The record persisted alongside each item, on the entity that owns it.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseItemRecord<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  data: IdentifierData;
+  /** The schema version the data was written with, missing for records written before versioning. */
+  schemaVersion?: number;
+  /** When the item expires, in milliseconds since the epoch, missing if it never expires. */
+  expiresAt?: number;
+};
+
+/**
+ * An item record, as it is persisted in the dynamic property of an entity.
+ */
+export type ItemDatabaseStoredItemRecord = {
+  /** The data of the item, encoded by `encodeItemData`. */
+  data: ItemDatabaseEncodedItemData;
+  /** The schema version the data was written with, missing for records written before versioning. */
+  schemaVersion?: number;
+  /** When the item expires, in milliseconds since the epoch, missing if it never expires. */
+  expiresAt?: number;
+};
+
+/**
+ * A single entry of an item database, pairing the item with its data.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseEntry<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  id: IdentifierData["id"];
+  item: ItemStack;
+  data: IdentifierData;
+};
+
+/**
+ * Where and how an item database stores its items.
+ */
+export type ItemDatabaseConfig = {
+  /** The typeId of the entity with a container component to store items in. */
+  entityTypeId: string;
+  /** The location where the database entities reside. */
+  location: Vector3;
+  /** The dimension the database entities are spawned in. */
+  dimension: string;
+  /** The prefix put on the name tag of items in the database. */
+  itemPrefix: string;
+  /** The size of the inventory of the database entity. */
+  inventorySize: number;
+};
+
+/**
+ * Options to configure an item database with.
+ * Any part of the config that is left out, defaults to the constants in `src/config/item-database.ts`.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseOptions<
+  IdentifierData extends ItemDatabaseItemStackData
+> = Partial<ItemDatabaseConfig> & {
+  /**
+   * Fields of the identifier data to keep secondary indexes on,
+   * used to speed up queries filtering by these fields.
+   *
+   * @example ["seller", "category"]
+   */
+  indexes?: (keyof IdentifierData & string)[];
+  /**
+   * If reads should throw a `DatabaseNotReadyError` until every known
+   * entity of the database has loaded, instead of returning partial results.
+   */
+  strictReads?: boolean;
+  /**
+   * How many ticks to wait, after the world has loaded, for every known entity to load,
+   * defaults to `READY_TIMEOUT_TICKS`. Entities still missing by then are reported
+   * as lost with an `entityLost` event, and the database becomes ready without them.
+   */
+  readyTimeoutTicks?: number;
+  /**
+   * What to do when a database entity is unexpectedly removed, defaults to "auto".
+   * - "off": Drop the items it held.
+   * - "auto": Spawn a replacement entity, and write the still-cached items into it.
+   * - "prompt-admin": Keep the items cached, and ask admins to run the recovery.
+   */
+  recovery?: ItemDatabaseRecoveryMode;
+  /**
+   * How the id of each item is stored, defaults to "nameTag".
+   * - "nameTag": Prefix the name tag of the item with its id.
+   * - "dynamicProperty": Store the id in a dynamic property of the item, only works for unstackable items.
+   * - "slotMap": Store the id in a dynamic property of the entity, for the slot the item is in.
+   *
+   * A custom encoder can be given too. Items still using the "nameTag" encoding are migrated when they load.
+   */
+  identity?: ItemDatabaseIdentityEncoding | ItemDatabaseIdentityEncoder;
+  /**
+   * A runtime schema the identifier data is validated against, on `setItem`,
+   * and when it loads, after migrating it to the current schema version.
+   */
+  schema?: ItemDatabaseSchema<IdentifierData>;
+  /**
+   * Caps on how much this database may hold, `setItem` rejects with a
+   * `QuotaExceededError` once one is reached. Unlimited when left out.
+   */
+  limits?: ItemDatabaseLimits<IdentifierData>;
+  /**
+   * How often, and how much, expired items are removed. Defaults to
+   * `EXPIRY_SWEEP_INTERVAL_TICKS` and `EXPIRY_SWEEP_BATCH_SIZE`.
+   */
+  expirySweep?: {
+    /** The amount of ticks between sweeps. */
+    intervalTicks?: number;
+    /** The maximum amount of expired items removed per sweep. */
+    batchSize?: number;
+  };
+  /**
+   * The fill ratio (0 to 1) of the database entities below which `compact()`
+   * runs automatically, after items are removed. Never runs automatically when left out.
+   *
+   * @example 0.5
+   */
+  autoCompactThreshold?: number;
+  /**
+   * Stores each item on several distinct entities, so losing one entity doesn't lose its items.
+   * Every copy after the first is kept in its own replica collection.
+   */
+  replication?: ItemDatabaseReplicationOptions;
+  /**
+   * If the itemStack properties `searchItems` filters by are cached for each item,
+   * so searches don't read every component of every item again. Costs some memory per item.
+   */
+  searchProjections?: boolean;
+};
+
+/**
+ * How the items of a database are replicated.
+ */
+export type ItemDatabaseReplicationOptions = {
+  /** The amount of copies of each item, including the original. */
+  factor: number;
+  /**
+   * Where the entities of each extra copy reside, by copy,
+   * defaults to the location of the database.
+   *
+   * @example [{ x: 1000, y: 0, z: 1000 }]
+   */
+  locations?: Vector3[];
+};
+
+/**
+ * Options to store an item with.
+ */
+export type ItemDatabaseSetOptions = {
+  /** When the item expires, as a date, or in milliseconds since the epoch. */
+  expiresAt?: Date | number;
+  /** How long until the item expires, in milliseconds. Ignored if `expiresAt` is given. */
+  ttl?: number;
+};
+
+/**
+ * Caps on how much an item database may hold.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseLimits<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /** The maximum amount of items in the database. */
+  maxItems?: number;
+  /** The maximum amount of entities the database may spawn to store its items in. */
+  maxEntities?: number;
+  /** The maximum amount of items per owner, requires `ownerField`. */
+  maxItemsPerOwner?: number;
+  /**
+   * The field of the identifier data holding the owner of each item.
+   * Items without a value for this field don't count towards any owner.
+   *
+   * @example "playerId"
+   */
+  ownerField?: keyof IdentifierData & string;
+};
+
+/**
+ * The limit of an item database that was reached.
+ */
+export type ItemDatabaseLimit = "maxItems" | "maxEntities" | "maxItemsPerOwner";
+
+/**
+ * How many more items an item database can take, `Infinity` where unlimited.
+ */
+export type ItemDatabaseCapacity = {
+  /** How many more items can be stored, within `maxItems` and `maxEntities`. */
+  items: number;
+  /** How many more entities can be spawned. */
+  entities: number;
+  /** How many more items the owner can store, within every limit, if an owner was given. */
+  owner?: number;
+};
+
+/**
+ * The types a field of the identifier data can be declared as.
+ */
+export type ItemDatabaseSchemaFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "date"
+  | "array"
+  | "object";
+
+/**
+ * The runtime declaration of a single field of the identifier data.
+ */
+export type ItemDatabaseSchemaField = {
+  /** The type the value of the field must have. */
+  type: ItemDatabaseSchemaFieldType;
+  /** If the field can be left out, defaults to false. */
+  optional?: boolean;
+};
+
+/**
+ * A migration, upgrading the identifier data of an item by one schema version.
+ *
+ * @param data - The data, as it was written under the previous version.
+ * @returns The data, as it should be under the next version.
+ */
+export type ItemDatabaseSchemaMigration = (
+  data: ItemDatabaseItemStackData
+) => ItemDatabaseItemStackData;
+
+/**
+ * A runtime schema for the identifier data of an item database.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseSchema<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /**
+   * The current version of the schema, records without a version are treated as version 1.
+   */
+  version: number;
+  /** The fields of the identifier data, and their types. */
+  fields?: {
+    [Field in keyof IdentifierData & string]?: ItemDatabaseSchemaField;
+  };
+  /**
+   * Extra validation on the whole identifier data.
+   *
+   * @param data - The data to validate.
+   * @returns The problems with the data, if any.
+   */
+  validate?: (data: IdentifierData) => string[] | undefined;
+  /**
+   * Migrations upgrading records to the current version.
+   * @key - The version the migration upgrades from, to the version after it.
+   * @value - The migration.
+   *
+   * @example { 1: (data) => ({ ...data, currency: "coins" }) }
+   */
+  migrations?: Record<number, ItemDatabaseSchemaMigration>;
+};
+
+/**
+ * A stored record that failed validation when it loaded, so its item was not loaded.
+ */
+export type ItemDatabaseInvalidRecord = {
+  /** The ID of the item. */
+  id: string;
+  /** Where the item is stored. */
+  location: ItemDatabaseItemLocation;
+  /** The schema version the record was written with. */
+  schemaVersion: number;
+  /** The problems with the record. */
+  issues: string[];
+};
+
+/**
+ * The built in ways of storing the id of each item.
+ */
+export type ItemDatabaseIdentityEncoding =
+  | "nameTag"
+  | "dynamicProperty"
+  | "slotMap";
+
+/**
+ * Stores and reads the id of each item in a database entity.
+ */
+export interface ItemDatabaseIdentityEncoder {
+  /**
+   * Encodes an id onto an item, that is about to be put in a slot.
+   *
+   * @param itemStack - The item to encode, left unmodified.
+   * @param id - The id of the item.
+   * @param entity - The entity the item is put in.
+   * @param slot - The slot the item is put in.
+   * @returns The item to put in the slot.
+   */
+  encode(
+    itemStack: ItemStack,
+    id: string,
+    entity: Entity,
+    slot: number
+  ): ItemStack;
+  /**
+   * Throws if an item can't have an id encoded onto it, checked before
+   * anything is written, or any entity is spawned, for the item.
+   *
+   * @param itemStack - The item to check.
+   * @param id - The id of the item.
+   * @throws if the item can't be encoded.
+   */
+  assertEncodable?(itemStack: ItemStack, id: string): void;
+  /**
+   * Decodes the id of an item in a slot.
+   *
+   * @param itemStack - The item in the slot.
+   * @param entity - The entity holding the item.
+   * @param slot - The slot the item is in.
+   * @returns The id of the item, or undefined if it has none.
+   */
+  decode(
+    itemStack: ItemStack,
+    entity: Entity,
+    slot: number
+  ): string | undefined;
+  /**
+   * Removes the encoded id from an item, restoring it to how it was given.
+   *
+   * @param itemStack - The item to strip, left unmodified.
+   * @returns The stripped item.
+   */
+  strip(itemStack: ItemStack): ItemStack;
+  /**
+   * Forgets the id of a slot, once the item in it has been removed.
+   *
+   * @param entity - The entity that held the item.
+   * @param slot - The slot that was emptied.
+   */
+  release(entity: Entity, slot: number): void;
+}
+
+/**
+ * What to do when a database entity is unexpectedly removed.
+ */
+export type ItemDatabaseRecoveryMode = "off" | "auto" | "prompt-admin";
+
+/**
+ * The result of recovering the items of a removed database entity.
+ */
+export type ItemDatabaseRecoveryReport = {
+  /** The ID of the entity that was removed. */
+  lostEntityId: string;
+  /** The ID of the entity the items were written into, if one was spawned. */
+  replacementEntityId: string | undefined;
+  /** Ids of the items that were written into the replacement entity. */
+  recoveredItemIds: string[];
+  /** Ids of the items that could not be recovered. */
+  failedItemIds: string[];
+};
+
+/**
+ * A filter applied to a single field of the identifier data.
+ * @template Value - The type of the field being filtered.
+ */
+export type ItemDatabaseQueryFilter<Value> = {
+  /** The field must equal this value. */
+  eq?: Value;
+  /** The field must equal one of these values. */
+  in?: Value[];
+  /** The field must start with this string. */
+  prefix?: string;
+  /** The field must be greater than this value. */
+  gt?: Value;
+  /** The field must be greater than or equal to this value. */
+  gte?: Value;
+  /** The field must be less than this value. */
+  lt?: Value;
+  /** The field must be less than or equal to this value. */
+  lte?: Value;
+};
+
+/**
+ * A query to find entries of an item database by their identifier data.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseQuery<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /** Filters every returned entry must match. */
+  where?: {
+    [Key in keyof IdentifierData]?: ItemDatabaseQueryFilter<
+      IdentifierData[Key]
+    >;
+  };
+  /** The field to sort the returned entries by. */
+  sortBy?: keyof IdentifierData & string;
+  /** The order to sort the returned entries in, defaults to "asc". */
+  order?: "asc" | "desc";
+  /** The maximum amount of entries to return. */
+  limit?: number;
+};
+
+/**
+ * A search for entries of an item database by the properties of their itemStack.
+ * Every given filter must match.
+ */
+export type ItemDatabaseItemSearch = {
+  /**
+   * The typeId of the item, exactly, or a pattern it must match.
+   *
+   * @example /^minecraft:netherite_/
+   */
+  typeId?: string | RegExp;
+  /** The amount of the item. */
+  amount?: ItemDatabaseQueryFilter<number>;
+  /**
+   * Enchantments the item must have, with their level.
+   *
+   * @example [{ type: "sharpness", level: { eq: 5 } }]
+   */
+  enchantments?: {
+    /** The id of the enchantment type, with or without the "minecraft:" namespace. */
+    type: string;
+    /** The level of the enchantment. */
+    level?: ItemDatabaseQueryFilter<number>;
+  }[];
+  /** Text one of the lore lines must contain, or a pattern one must match. */
+  lore?: string | RegExp;
+  /** Text the custom name must contain, or a pattern it must match. */
+  nameTag?: string | RegExp;
+  /** The durability the item has left, items without durability never match. */
+  durability?: ItemDatabaseQueryFilter<number>;
+  /** The maximum amount of entries to return. */
+  limit?: number;
+};
+
+/**
+ * The properties of an itemStack `searchItems` filters by, read once from its components.
+ */
+export type ItemDatabaseItemProjection = {
+  /** The typeId of the item. */
+  typeId: string;
+  /** The amount of the item. */
+  amount: number;
+  /** The enchantments of the item, their type without the "minecraft:" namespace. */
+  enchantments: { type: string; level: number }[];
+  /** The lore lines of the item. */
+  lore: string[];
+  /** The custom name of the item, undefined if it has none. */
+  nameTag: string | undefined;
+  /** The durability the item has left, undefined if it has no durability. */
+  durability: number | undefined;
+};
+
+/**
+ * Options to list a page of entries of an item database with.
+ */
+export type ItemDatabaseListOptions = {
+  /**
+   * The cursor returned with the previous page, omit to start at the first page.
+   */
+  cursor?: string;
+  /** The maximum amount of entries in the page, defaults to 45. */
+  pageSize?: number;
+  /** The order of the item ids to page through, defaults to "asc". */
+  order?: "asc" | "desc";
+};
+
+/**
+ * A page of entries of an item database.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabasePage<IdentifierData extends ItemDatabaseItemStackData> =
+  {
+    /** The entries in this page. */
+    entries: ItemDatabaseEntry<IdentifierData>[];
+    /** The cursor to fetch the next page with, undefined if this is the last page. */
+    nextCursor: string | undefined;
+  };
+
+/**
+ * Where an item is stored inside an item database.
+ */
+export type ItemDatabaseItemLocation = {
+  /** The ID of the entity holding the item. */
+  entityId: string;
+  /** The slot of the entity's container the item is in. */
+  slot: number;
+};
+
+/**
+ * An item reserved from an item database by `reserve`. Until the reservation is committed,
+ * released, or times out, the item can't be taken or reserved by anyone else.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseReservation<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /** The token to commit or release the reservation with. */
+  token: string;
+  /** The ID of the reserved item. */
+  id: IdentifierData["id"];
+  /** A copy of the reserved item. */
+  item: ItemStack;
+  /** A copy of the data of the reserved item. */
+  data: IdentifierData;
+  /** When the reservation times out, in milliseconds since the epoch. */
+  expiresAt: number;
+};
+
+/**
+ * A write queued in a transaction of an item database.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseTransactionOperation<
+  IdentifierData extends ItemDatabaseItemStackData
+> =
+  | {
+      type: "set";
+      itemStack: ItemStack;
+      data: IdentifierData;
+      options: ItemDatabaseSetOptions;
+    }
+  | { type: "remove"; id: IdentifierData["id"] };
+
+/**
+ * An item to add to an item database as part of a batch.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseBatchEntry<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  itemStack: ItemStack;
+  data: IdentifierData;
+  /** Options to store the item with, such as when it expires. */
+  options?: ItemDatabaseSetOptions;
+};
+
+/**
+ * The result of a single item of a batch operation.
+ */
+export type ItemDatabaseBatchResult = {
+  /** The ID of the item. */
   id: string;
+  /** If the operation succeeded for this item. */
+  success: boolean;
+  /** Why the operation failed, if it threw. */
+  error?: string;
+};
+
+/**
+ * Called as a batch operation makes progress.
+ *
+ * @param completed - The amount of items processed so far.
+ * @param total - The amount of items in the batch.
+ */
+export type ItemDatabaseBatchProgressCallback = (
+  completed: number,
+  total: number
+) => void;
+
+/**
+ * Map of the events emitted by an item database, to their payloads.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseEventMap<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /** An item was stored, replacing the previous item with its id if any. */
+  itemSet: {
+    id: IdentifierData["id"];
+    item: ItemStack;
+    data: IdentifierData;
+    previousData: IdentifierData | undefined;
+  };
+  /** An item was removed from the database. */
+  itemRemoved: {
+    id: IdentifierData["id"];
+    data: IdentifierData;
+  };
+  /** An entity of the database loaded, and its items were registered. */
+  entityLoaded: {
+    entityId: string;
+    itemCount: number;
+  };
+  /**
+   * An entity of the database was removed, losing the items it held,
+   * or never loaded within `readyTimeoutTicks`, in which case its items are unknown.
+   */
+  entityLost: {
+    entityId: string;
+    lostItemIds: IdentifierData["id"][];
+  };
+  /** An item was found on an entity of the database, without its id. */
+  itemLostId: {
+    entityId: string;
+    slot: number;
+    item: ItemStack;
+  };
+  /** The items of a removed entity were recovered into a replacement. */
+  recovered: ItemDatabaseRecoveryReport;
+  /** Every item of the database was cleared. */
+  cleared: {
+    itemCount: number;
+  };
+  /** A stored record failed validation when it loaded, so its item was not loaded. */
+  invalidRecord: ItemDatabaseInvalidRecord;
+  /** The items of the database were moved into fewer entities. */
+  compacted: ItemDatabaseCompactionResult;
+  /** An item expired, and was removed from the database. */
+  expired: {
+    id: IdentifierData["id"];
+    item: ItemStack;
+    data: IdentifierData;
+    expiresAt: number;
+  };
+};
+
+/**
+ * The problems found when verifying the integrity of an item database.
+ */
+export type ItemDatabaseIntegrityReport = {
+  /** Items stored on database entities, whose name tag lost its id. */
+  itemsWithoutId: (ItemDatabaseItemLocation & { typeId: string })[];
+  /** Ids stored in more than one slot, and every slot they are in. */
+  duplicateIds: { id: string; locations: ItemDatabaseItemLocation[] }[];
+  /** Items in the item storage map, whose slot is actually empty. */
+  missingItems: { id: string; entityId: string }[];
+  /** Ids of database entities that hold no items. */
+  emptyEntities: string[];
+};
+
+/**
+ * Options to repair an item database with.
+ */
+export type ItemDatabaseRepairOptions = {
+  /** If the problems should only be reported, without fixing them. */
+  dryRun?: boolean;
+};
+
+/**
+ * The result of repairing an item database.
+ */
+export type ItemDatabaseRepairResult = {
+  /** The problems that were found. */
+  report: ItemDatabaseIntegrityReport;
+  /** If this was a dry run, so nothing was fixed. */
+  dryRun: boolean;
+  /** Ids the orphaned items were stored with in the quarantine collection. */
+  quarantinedItemIds: string[];
+  /** Ids of the items dropped from the cache, as their slot was empty. */
+  droppedItemIds: string[];
+  /** Ids of the empty entities that were removed. */
+  removedEntityIds: string[];
+};
+
+/**
+ * What was done to bring the replicas of an item database back in sync.
+ */
+export type ItemDatabaseReplicaSyncResult = {
+  /** Ids of the items that had at least one copy re-created. */
+  recreatedItemIds: string[];
+  /** Ids of the items that had at least one copy that could not be re-created. */
+  failedItemIds: string[];
+};
+
+/**
+ * What was done to compact an item database.
+ */
+export type ItemDatabaseCompactionResult = {
+  /** Ids of the items that were moved into another entity. */
+  movedItemIds: string[];
+  /** Ids of the entities that ended up empty, and were removed. */
+  removedEntityIds: string[];
+};
+
+/**
+ * A value that can be stored in a dynamic property.
+ */
+export type ItemDatabaseDynamicPropertyValue =
+  | boolean
+  | number
+  | string
+  | Vector3;
+
+/**
+ * An itemStack serialized to plain JSON, so it can be stored outside of the world.
+ */
+export type ItemDatabaseSerializedItemStack = {
+  /** The typeId of the item. */
+  typeId: string;
+  /** The amount of the item. */
+  amount: number;
+  /** The custom name of the item, if it has one. */
+  nameTag?: string;
+  /** The lore of the item. */
+  lore: string[];
+  /** The enchantments on the item. */
+  enchantments: { type: string; level: number }[];
+  /** The damage the item has taken, if it has durability. */
+  damage?: number;
+  /** The blocks the item can be placed on, in adventure mode. */
+  canPlaceOn: string[];
+  /** The blocks the item can destroy, in adventure mode. */
+  canDestroy: string[];
+  /** The dynamic properties of the item. */
+  dynamicProperties: Record<string, ItemDatabaseDynamicPropertyValue>;
+  /** If the item is kept when its holder dies. */
+  keepOnDeath: boolean;
+  /** How the item is locked in the inventory of its holder. */
+  lockMode: string;
+};
+
+/**
+ * A single entry of a snapshot of an item database.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseSnapshotEntry<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  id: IdentifierData["id"];
+  /** The data of the item, encoded by `encodeItemData`. */
+  data: ItemDatabaseEncodedItemData;
+  item: ItemDatabaseSerializedItemStack;
+  /** When the item expires, in milliseconds since the epoch, missing if it never expires. */
+  expiresAt?: number;
+};
+
+/**
+ * A portable, versioned, JSON document holding every entry of an item database.
+ * @template IdentifierData - The type of data associated with each item.
+ */
+export type ItemDatabaseSnapshot<
+  IdentifierData extends ItemDatabaseItemStackData
+> = {
+  /** The version of the snapshot format, see `SNAPSHOT_VERSION`. */
+  version: number;
+  /** The typeId of the database the snapshot was exported from. */
+  typeId: string;
+  /** When the snapshot was exported, in milliseconds since the epoch. */
+  exportedAt: number;
+  /** Every entry of the database. */
+  entries: ItemDatabaseSnapshotEntry<IdentifierData>[];
+};
+
+/**
+ * Options to import a snapshot with.
+ */
+export type ItemDatabaseImportOptions = {
+  /**
+   * How to import the snapshot, defaults to "merge".
+   * - "merge": Keep the current items, replacing the ones with the same id.
+   * - "replace": Clear the database first.
+   */
+  mode?: "merge" | "replace";
+};
+
+/**
+ * Options to sync an item database to an external HTTP backend with.
+ */
+export type ItemDatabaseSyncOptions = {
+  /**
+   * The base url of the backend, changes are posted to `<endpoint>/changes`,
+   * and snapshots are pulled from `<endpoint>/snapshot`.
+   *
+   * @example "http://localhost:8080/item-database"
+   */
+  endpoint: string;
+  /** Extra headers to send with every request, e.g. for authentication. */
+  headers?: Record<string, string>;
+  /** The max amount of changes to send per request, defaults to 25. */
+  batchSize?: number;
+  /** How often to send queued changes, in ticks, defaults to 20. */
+  flushIntervalTicks?: number;
+  /** The delay before the first retry of a failed request, in ticks, defaults to 20. */
+  retryBaseDelayTicks?: number;
+  /** The max delay between retries of a failed request, in ticks, defaults to 1200. */
+  retryMaxDelayTicks?: number;
+  /** How long to wait for a response, in seconds, defaults to 10. */
+  timeoutSeconds?: number;
+};
+
+/**
+ * A change to an item database, as it is sent to the sync backend.
+ * @template IdentifierData - The type of data associated with the item.
+ */
+export type ItemDatabaseSyncChange<
+  IdentifierData extends ItemDatabaseItemStackData
+> =
+  | {
+      type: "set";
+      id: IdentifierData["id"];
+      /** The data of the item, encoded by `encodeItemData`. */
+      data: ItemDatabaseEncodedItemData;
+      item: ItemDatabaseSerializedItemStack;
+      /** When the item expires, in milliseconds since the epoch, missing if it never expires. */
+      expiresAt?: number;
+      /** When the change happened, in milliseconds since the epoch. */
+      at: number;
+    }
+  | {
+      type: "remove";
+      id: IdentifierData["id"];
+      /** When the change happened, in milliseconds since the epoch. */
+      at: number;
+    }
+  | {
+      type: "clear";
+      /** When the change happened, in milliseconds since the epoch. */
+      at: number;
+    };
+
+/**
+ * The result of reconciling an item database with its sync backend.
+ */
+export type ItemDatabaseSyncReconcileResult = {
+  /** Ids of the items that were added or updated from the backend. */
+  updatedIds: string[];
+  /** Ids of the items that were removed, as the backend doesn't have them. */
+  removedIds: string[];
+  /** Ids of the items that failed to be updated or removed. */
+  failedIds: string[];
 };
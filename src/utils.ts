@@ -1,3 +1,5 @@
+import { Vector3, system } from "@minecraft/server";
+
 /**
  * Asserts a condition is true.
  *
@@ -37,4 +39,110 @@ export function generateUniqueId(): string {
   return `${now.toString(36)}-${performanceTime.toString(
     36
   )}-${randomString}-${uniqueCounter}-${Date.now()}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the rank of the type of a value, so values of different types sort in a stable order.
+ *
+ * @param value - The value to get the rank of.
+ * @returns The rank of the type of the value.
+ */
+export function getValueRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (value instanceof Date) return 3;
+  if (typeof value === "string") return 4;
+  return 5;
+}
+
+/**
+ * Compares two values for sorting. Values of different types are ordered by type
+ * (null, booleans, numbers, dates, strings, then arrays and objects), numbers and
+ * dates are compared numerically, and arrays and objects by their JSON.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns A negative number if a < b, positive if a > b, 0 if equal.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rankDifference = getValueRank(a) - getValueRank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (a instanceof Date && b instanceof Date)
+    return compareValues(a.getTime(), b.getTime());
+  if (typeof a === "number" && typeof b === "number") {
+    // NaN sorts before every other number.
+    if (Number.isNaN(a) || Number.isNaN(b))
+      return Number(!Number.isNaN(a)) - Number(!Number.isNaN(b));
+    return a - b;
+  }
+
+  const stringA =
+    typeof a === "object" && a !== null ? JSON.stringify(a) : String(a);
+  const stringB =
+    typeof b === "object" && b !== null ? JSON.stringify(b) : String(b);
+  if (stringA < stringB) return -1;
+  if (stringA > stringB) return 1;
+  return 0;
+}
+
+/**
+ * Finds the index a value has, or would be inserted at, in a sorted list.
+ *
+ * @param list - The sorted list to search.
+ * @param value - The value to search for.
+ * @param compare - The function the list is sorted by.
+ * @returns The index of the first element that is not less than the value.
+ */
+export function binarySearch<T>(
+  list: T[],
+  value: T,
+  compare: (a: T, b: T) => number = compareValues
+): number {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compare(list[middle] as T, value) < 0) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+}
+
+/**
+ * Runs a generator as a job, spreading its work across ticks.
+ *
+ * @param generator - The generator to run, yielding whenever it may be paused.
+ * @returns A promise resolving once the generator has finished.
+ */
+export function runJobAsync(
+  generator: Generator<void, void, void>
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    system.runJob(
+      (function* () {
+        try {
+          yield* generator;
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      })()
+    );
+  });
+}
+
+/**
+ * Returns a string representing a bounding box around a location,
+ * used for commands such as adding ticking areas for the database entities.
+ *
+ * @param location - The location the entities reside at.
+ * @returns @example "-1 -1 -1 1 1 1"
+ */
+export function getEntityBoundingBox(location: Vector3): string {
+  return `${location.x - 1} ${location.y - 1} ${location.z - 1} ${
+    location.x + 1
+  } ${location.y + 1} ${location.z + 1}`;
+}
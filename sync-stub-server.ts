@@ -0,0 +1,125 @@
+import * as http from "http";
+
+/**
+ * A local stub of an item database sync backend, keeping every database in memory.
+ * Point an `ItemDatabaseSyncAdapter` at `http://localhost:<PORT>/item-database`.
+ *
+ * Environment variables:
+ * - PORT: The port to listen on, defaults to 8080.
+ * - FAIL_RATE: The chance (0 to 1) of rejecting a request, to test retries, defaults to 0.
+ */
+const port = Number(process.env["PORT"] ?? 8080);
+const failRate = Number(process.env["FAIL_RATE"] ?? 0);
+
+/**
+ * A change posted by the sync adapter.
+ */
+type SyncChange =
+  | {
+      type: "set";
+      id: string;
+      data: unknown;
+      item: unknown;
+      expiresAt?: number;
+      at: number;
+    }
+  | { type: "remove"; id: string; at: number }
+  | { type: "clear"; at: number };
+
+/**
+ * The entries of every synced database.
+ * @key - The typeId of the database.
+ * @value - The entries of the database, by item id.
+ */
+const databases = new Map<
+  string,
+  Map<string, { id: string; data: unknown; item: unknown; expiresAt?: number }>
+>();
+
+/**
+ * Reads the full body of a request.
+ *
+ * @param request - The request to read.
+ * @returns The body of the request.
+ */
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Responds to a request with a JSON body.
+ *
+ * @param response - The response to send.
+ * @param status - The status code.
+ * @param body - The body to send as JSON.
+ */
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown
+) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+http
+  .createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+    console.log(
+      `[${new Date().toLocaleTimeString()}]`,
+      request.method,
+      url.pathname
+    );
+
+    if (Math.random() < failRate)
+      return sendJson(response, 503, { error: "Simulated failure" });
+
+    try {
+      if (request.method === "POST" && url.pathname.endsWith("/changes")) {
+        const { typeId, changes } = JSON.parse(await readBody(request)) as {
+          typeId: string;
+          changes: SyncChange[];
+        };
+        const entries = databases.get(typeId) ?? new Map();
+        databases.set(typeId, entries);
+
+        for (const change of changes) {
+          if (change.type === "set") entries.set(change.id, change);
+          else if (change.type === "remove") entries.delete(change.id);
+          else entries.clear();
+        }
+
+        console.log(
+          `Applied ${changes.length}x changes to "${typeId}", it now holds ${entries.size}x items`
+        );
+        return sendJson(response, 200, { applied: changes.length });
+      }
+
+      if (request.method === "GET" && url.pathname.endsWith("/snapshot")) {
+        const typeId = url.searchParams.get("typeId") ?? "";
+        const entries = databases.get(typeId) ?? new Map();
+        return sendJson(response, 200, {
+          version: 2,
+          typeId,
+          exportedAt: Date.now(),
+          entries: [...entries.values()].map(
+            ({ id, data, item, expiresAt }) => ({ id, data, item, expiresAt })
+          ),
+        });
+      }
+
+      sendJson(response, 404, { error: "Not found" });
+    } catch (error) {
+      sendJson(response, 400, { error: `${error}` });
+    }
+  })
+  .listen(port, () => {
+    console.log(
+      `Item database sync stub listening on http://localhost:${port}/item-database`
+    );
+  });